@@ -1,34 +1,89 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useCallback, useMemo } from "react";
 import { Player, PlayerRef } from "@remotion/player";
-import { composition } from "./remotion/compositions";
+import {
+  compositions,
+  getComposition,
+  getVariants,
+} from "./remotion/compositions";
+import {
+  SequenceReportContext,
+  mergeSequenceReports,
+  profileComposition,
+  type SequenceReport,
+} from "./remotion/library";
+import {
+  getInitialPreviewState,
+  readPreviewStateFromHash,
+  writePreviewStateToHash,
+} from "./preview/hashState";
+import { PropsPanel } from "./preview/PropsPanel";
+import { Timeline } from "./preview/Timeline";
+import { useTransportKeys } from "./preview/useTransportKeys";
+import {
+  SafeZoneControls,
+  SafeZoneOverlay,
+  defaultSafeZoneSettings,
+} from "./preview/SafeZoneOverlay";
+import { VariantStrip, VARIANT_BOX_SIZE } from "./preview/VariantStrip";
+import { ProfilerHud, createRenderCollector } from "./preview/ProfilerHud";
+import {
+  CompareControls,
+  ComparePlayer,
+  OnionSkinOverlay,
+  defaultCompareSettings,
+} from "./preview/FrameCompare";
+import { useResolvedComposition } from "./preview/useResolvedComposition";
 
-// Parse frame from URL hash (e.g., #frame=100)
-const getFrameFromHash = (): number | null => {
-  const hash = window.location.hash;
-  if (!hash) return null;
+// Minimum time between hash writes while the player is running
+const HASH_WRITE_INTERVAL_MS = 250;
 
-  const params = new URLSearchParams(hash.slice(1));
-  const frameParam = params.get("frame");
+// Width of the props panel including its gap, in pixels
+const PROPS_PANEL_WIDTH = 336;
 
-  if (frameParam) {
-    const frame = parseInt(frameParam, 10);
-    if (!isNaN(frame) && frame >= 0) {
-      return frame;
-    }
-  }
+// Height of the timeline strip including its gap, in pixels
+const TIMELINE_HEIGHT = 96;
 
-  return null;
-};
+// Gap between the player and the variant strip, in pixels
+const VARIANT_STRIP_GAP = 16;
+
+// Gap between the player and the compare player, in pixels
+const COMPARE_PLAYER_GAP = 16;
 
 export const App = () => {
   const playerRef = useRef<PlayerRef>(null);
+  const [state, setState] = useState(readPreviewStateFromHash);
+  // Bumped whenever the Player must remount to pick up a restored state
+  const [mountKey, setMountKey] = useState(0);
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  const frameRef = useRef(state.frame ?? 0);
+  const lastHashWriteRef = useRef(0);
+  const composition = useResolvedComposition(state.composition, state.inputProps);
+  const [sequence, setSequence] = useState<SequenceReport | null>(null);
+  const sequenceReportsRef = useRef(new Map<string, SequenceReport>());
+  const hasTimeline = sequence !== null;
+  const [guides, setGuides] = useState(defaultSafeZoneSettings);
+  const [showVariants, setShowVariants] = useState(false);
+  const otherVariants = useMemo(
+    () => getVariants(composition).filter((c) => c.id !== composition.id),
+    [composition],
+  );
+  const hasVariantStrip = showVariants && otherVariants.length > 0;
+  const [compare, setCompare] = useState(defaultCompareSettings);
+  const isSideBySide = compare.mode === "sideBySide";
+  const [isProfiling, setIsProfiling] = useState(false);
+  const [renderCollector] = useState(createRenderCollector);
+  const profiledComponent = useMemo(
+    () => profileComposition(composition.component, renderCollector.profiler),
+    [composition.component, renderCollector],
+  );
   const [playerSize, setPlayerSize] = useState<React.CSSProperties>({
     width: "100%",
     height: "100%",
   });
 
-  // Get initial frame from URL hash
-  const initialFrame = getFrameFromHash();
+  // Autoplay only when the link does not point at a specific frame
+  const initialFrame = state.frame;
   const shouldAutoPlay = initialFrame === null;
 
   // Calculate the player size based on composition aspect ratio
@@ -37,9 +92,15 @@ export const App = () => {
 
     const aspectRatio = composition.width / composition.height;
 
-    // Maximum available space
-    const maxWidth = window.innerWidth * 0.9;
-    const maxHeight = window.innerHeight * 0.85;
+    // Maximum available space, leaving room for the props panel and timeline
+    const panelWidth =
+      (composition.schema ? PROPS_PANEL_WIDTH : 0) +
+      (hasVariantStrip ? VARIANT_BOX_SIZE + VARIANT_STRIP_GAP : 0);
+    const timelineHeight = hasTimeline ? TIMELINE_HEIGHT : 0;
+    const maxWidth = isSideBySide
+      ? ((window.innerWidth - panelWidth) * 0.9 - COMPARE_PLAYER_GAP) / 2
+      : (window.innerWidth - panelWidth) * 0.9;
+    const maxHeight = (window.innerHeight - timelineHeight) * 0.8;
 
     let playerWidth = maxWidth;
     let playerHeight = playerWidth / aspectRatio;
@@ -68,38 +129,278 @@ export const App = () => {
     window.addEventListener("resize", updateSize);
 
     return () => window.removeEventListener("resize", updateSize);
+  }, [composition, hasTimeline, hasVariantStrip, isSideBySide]);
+
+  // Forget the previous composition's scenes and render costs
+  useEffect(() => {
+    sequenceReportsRef.current.clear();
+    setSequence(null);
+    renderCollector.reset();
+  }, [composition.id]);
+
+  // Compositions re-report on every config change; only update on real changes
+  const onSequenceReport = useCallback(
+    (callerId: string, report: SequenceReport | null) => {
+      const reports = sequenceReportsRef.current;
+      if (report) reports.set(callerId, report);
+      else reports.delete(callerId);
+
+      if (reports.size === 0) {
+        setSequence(null);
+        return;
+      }
+      const merged = mergeSequenceReports([...reports.values()]);
+      setSequence((prev) =>
+        prev && JSON.stringify(prev) === JSON.stringify(merged) ? prev : merged,
+      );
+    },
+    [],
+  );
+
+  const writeHash = () => {
+    lastHashWriteRef.current = Date.now();
+    writePreviewStateToHash({ ...stateRef.current, frame: frameRef.current });
+  };
+
+  // Keep the hash in sync with everything except the live frame
+  useEffect(() => {
+    writeHash();
+  }, [state]);
+
+  // Restore the full state when a link is pasted into this tab
+  useEffect(() => {
+    const onHashChange = () => {
+      const next = readPreviewStateFromHash();
+      frameRef.current = next.frame ?? 0;
+      setState(next);
+      setMountKey((key) => key + 1);
+    };
+    window.addEventListener("hashchange", onHashChange);
+    return () => window.removeEventListener("hashchange", onHashChange);
   }, []);
 
-  // Seek to frame from URL hash on mount
+  // Track the live frame, rate and mute state of the Player
   useEffect(() => {
-    if (initialFrame !== null && playerRef.current) {
-      playerRef.current.seekTo(initialFrame);
+    const player = playerRef.current;
+    if (!player) return;
+
+    const onFrameUpdate = ({ detail }: { detail: { frame: number } }) => {
+      frameRef.current = detail.frame;
+      if (Date.now() - lastHashWriteRef.current >= HASH_WRITE_INTERVAL_MS) {
+        writeHash();
+      }
+    };
+    const onSeeked = ({ detail }: { detail: { frame: number } }) => {
+      frameRef.current = detail.frame;
+      writeHash();
+    };
+    const onPause = () => writeHash();
+    const onRateChange = ({ detail }: { detail: { playbackRate: number } }) =>
+      setState((prev) => ({ ...prev, playbackRate: detail.playbackRate }));
+    const onMuteChange = ({ detail }: { detail: { isMuted: boolean } }) =>
+      setState((prev) => ({ ...prev, muted: detail.isMuted }));
+
+    player.addEventListener("frameupdate", onFrameUpdate);
+    player.addEventListener("seeked", onSeeked);
+    player.addEventListener("pause", onPause);
+    player.addEventListener("ratechange", onRateChange);
+    player.addEventListener("mutechange", onMuteChange);
+
+    return () => {
+      player.removeEventListener("frameupdate", onFrameUpdate);
+      player.removeEventListener("seeked", onSeeked);
+      player.removeEventListener("pause", onPause);
+      player.removeEventListener("ratechange", onRateChange);
+      player.removeEventListener("mutechange", onMuteChange);
+    };
+  }, [composition.id, mountKey]);
+
+  const setInputProps = (inputProps: Record<string, unknown>) =>
+    setState((prev) => ({ ...prev, inputProps }));
+
+  const setPlaybackRate = (playbackRate: number) =>
+    setState((prev) => ({ ...prev, playbackRate }));
+
+  const setInOut = (inFrame: number | null, outFrame: number | null) =>
+    setState((prev) => ({ ...prev, inFrame, outFrame }));
+
+  // Scene starts and ends, for jumping between scenes
+  const sceneBoundaries = useMemo(
+    () =>
+      (sequence?.scenes ?? []).flatMap((scene) => [
+        Math.round(scene.at * composition.fps),
+        Math.round((scene.at + scene.duration) * composition.fps),
+      ]),
+    [sequence, composition.fps],
+  );
+
+  useTransportKeys({
+    playerRef,
+    durationInFrames: composition.durationInFrames,
+    playbackRate: state.playbackRate,
+    setPlaybackRate,
+    inFrame: state.inFrame,
+    outFrame: state.outFrame,
+    setInOut,
+    boundaries: sceneBoundaries,
+  });
+
+  const selectComposition = (id: string) => {
+    const next = getComposition(id);
+    if (!next) return;
+
+    // Size variants share their props and position
+    if (next.variantOf && next.variantOf === composition.variantOf) {
+      const frame = playerRef.current?.getCurrentFrame() ?? frameRef.current;
+      frameRef.current = frame;
+      setState((prev) => ({ ...prev, composition: next, frame }));
+      return;
     }
-  }, [initialFrame]);
+
+    frameRef.current = 0;
+    setState(getInitialPreviewState(next));
+  };
 
   return (
     <div className="relative flex flex-col items-center justify-center h-screen w-screen p-4 bg-[#1e1e1e]">
       <div className="pointer-events-none absolute inset-0 bg-[radial-gradient(circle_at_20%_15%,rgba(255,255,255,0.08),transparent_40%),radial-gradient(circle_at_80%_70%,rgba(59,130,246,0.08),transparent_45%),linear-gradient(180deg,rgba(255,255,255,0.04),transparent_35%)]" />
-      <div className="w-full h-full flex flex-col items-center justify-center relative">
-        <div className="w-full h-full flex items-center justify-center">
-          <div className="relative rounded-2xl border border-white/15 bg-black/30 shadow-[0_20px_80px_rgba(0,0,0,0.55)] ring-1 ring-white/10 backdrop-blur-sm overflow-hidden">
-            <div className="absolute inset-x-0 top-0 h-10 bg-gradient-to-b from-white/10 to-transparent pointer-events-none" />
-            <Player
-              ref={playerRef}
-              component={composition.component}
-              durationInFrames={composition.durationInFrames}
-              fps={composition.fps}
-              compositionHeight={composition.height}
-              compositionWidth={composition.width}
-            controls
-            autoPlay={shouldAutoPlay}
-            style={playerSize}
-              allowFullscreen
-              doubleClickToFullscreen
-              initialFrame={initialFrame ?? 0}
-              numberOfSharedAudioTags={10}
+      <div className="relative mb-3 flex w-full flex-wrap items-center justify-center gap-x-6 gap-y-2 text-sm text-white/70">
+        {compositions.length > 1 && (
+          <div className="flex items-center gap-2">
+            <label htmlFor="composition-picker">Composition</label>
+            <select
+              id="composition-picker"
+              className="rounded-md border border-white/15 bg-black/40 px-2 py-1 text-white"
+              value={composition.id}
+              onChange={(e) => selectComposition(e.target.value)}
+            >
+              {compositions.map((c) => (
+                <option key={c.id} value={c.id}>
+                  {c.id} ({c.width}x{c.height}, {c.durationInFrames}f)
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+        {otherVariants.length > 0 && (
+          <label className="flex items-center gap-1 text-xs">
+            <input
+              type="checkbox"
+              checked={showVariants}
+              onChange={(e) => setShowVariants(e.target.checked)}
             />
+            Show all sizes
+          </label>
+        )}
+        <SafeZoneControls settings={guides} onChange={setGuides} />
+        <CompareControls settings={compare} onChange={setCompare} />
+        <label className="flex items-center gap-1 text-xs">
+          <input
+            type="checkbox"
+            checked={isProfiling}
+            onChange={(e) => setIsProfiling(e.target.checked)}
+          />
+          Profile
+        </label>
+        <span className="text-xs text-white/40">
+          J/K/L shuttle · ←/→ step (⇧ ×10) · ↑/↓ scenes · I/O loop (⌥ clears)
+        </span>
+      </div>
+      {isProfiling && (
+        <ProfilerHud
+          collector={renderCollector}
+          playerRef={playerRef}
+          durationInFrames={composition.durationInFrames}
+          fps={composition.fps}
+        />
+      )}
+      <div className="w-full h-full flex flex-col items-center justify-center relative">
+        <div className="w-full h-full min-h-0 flex items-center justify-center gap-4">
+          <div className="flex flex-col items-center gap-3">
+            <div className="flex items-center gap-4">
+              <div className="relative rounded-2xl border border-white/15 bg-black/30 shadow-[0_20px_80px_rgba(0,0,0,0.55)] ring-1 ring-white/10 backdrop-blur-sm overflow-hidden">
+                <div className="absolute inset-x-0 top-0 h-10 bg-gradient-to-b from-white/10 to-transparent pointer-events-none" />
+                <SequenceReportContext.Provider value={onSequenceReport}>
+                  <Player
+                    key={`${composition.id}-${mountKey}`}
+                    ref={playerRef}
+                    component={isProfiling ? profiledComponent : composition.component}
+                    inputProps={state.inputProps}
+                    durationInFrames={composition.durationInFrames}
+                    fps={composition.fps}
+                    compositionHeight={composition.height}
+                    compositionWidth={composition.width}
+                    controls
+                    autoPlay={shouldAutoPlay}
+                    style={playerSize}
+                    allowFullscreen
+                    doubleClickToFullscreen
+                    initialFrame={initialFrame ?? 0}
+                    inFrame={state.inFrame}
+                    outFrame={state.outFrame}
+                    loop
+                    playbackRate={state.playbackRate}
+                    showPlaybackRateControl
+                    initiallyMuted={state.muted}
+                    numberOfSharedAudioTags={10}
+                  />
+                </SequenceReportContext.Provider>
+                {compare.mode === "onionSkin" && (
+                  <OnionSkinOverlay
+                    key={`${composition.id}-${mountKey}`}
+                    playerRef={playerRef}
+                    composition={composition}
+                    inputProps={state.inputProps}
+                    settings={compare}
+                  />
+                )}
+                <SafeZoneOverlay
+                  settings={guides}
+                  width={composition.width}
+                  height={composition.height}
+                />
+              </div>
+              {isSideBySide && (
+                <ComparePlayer
+                  key={`${composition.id}-${mountKey}`}
+                  playerRef={playerRef}
+                  composition={composition}
+                  inputProps={state.inputProps}
+                  offset={compare.offset}
+                  style={playerSize}
+                />
+              )}
+            </div>
+            {sequence && (
+              <Timeline
+                key={`${composition.id}-${mountKey}`}
+                playerRef={playerRef}
+                sequence={sequence}
+                durationInFrames={composition.durationInFrames}
+                fps={composition.fps}
+                inFrame={state.inFrame}
+                outFrame={state.outFrame}
+              />
+            )}
           </div>
+          {hasVariantStrip && (
+            <VariantStrip
+              key={`${composition.id}-${mountKey}`}
+              playerRef={playerRef}
+              variants={otherVariants}
+              inputProps={state.inputProps}
+              onSelect={selectComposition}
+            />
+          )}
+          {composition.schema && (
+            <PropsPanel
+              compositionId={composition.id}
+              schema={composition.schema}
+              value={state.inputProps}
+              defaultProps={{ ...composition.defaultProps }}
+              onChange={setInputProps}
+            />
+          )}
         </div>
       </div>
     </div>
@@ -0,0 +1,279 @@
+import { useEffect, useRef, useState } from "react";
+import { Player, Thumbnail, type PlayerRef } from "@remotion/player";
+import type { CompositionConfig } from "../remotion/compositions";
+
+export type CompareMode = "off" | "sideBySide" | "onionSkin";
+
+/**
+ * How neighbouring frames are shown next to the current one.
+ */
+export interface CompareSettings {
+  mode: CompareMode;
+  /** Frames between the main Player and the compare Player (side by side) */
+  offset: number;
+  /** Ghosted frames before the current frame (onion skin) */
+  before: number;
+  /** Ghosted frames after the current frame (onion skin) */
+  after: number;
+  /** Frames between two ghosts (onion skin) */
+  spacing: number;
+  /** Opacity of the nearest ghost, further ghosts fade out (onion skin) */
+  opacity: number;
+}
+
+export const defaultCompareSettings: CompareSettings = {
+  mode: "off",
+  offset: 10,
+  before: 2,
+  after: 2,
+  spacing: 2,
+  opacity: 0.4,
+};
+
+/** Highest number of ghosts on each side of the current frame */
+export const MAX_ONION_SKINS = 5;
+
+// Ghosts before the current frame are tinted red, ghosts after it green
+const PAST_TINT = "sepia(1) saturate(4) hue-rotate(-50deg)";
+const FUTURE_TINT = "sepia(1) saturate(4) hue-rotate(60deg)";
+
+const clampFrame = (frame: number, durationInFrames: number) =>
+  Math.max(0, Math.min(durationInFrames - 1, frame));
+
+/**
+ * Current frame of a Player, updated while playing and seeking.
+ */
+const usePlayerFrame = (playerRef: React.RefObject<PlayerRef | null>) => {
+  const [frame, setFrame] = useState(() => playerRef.current?.getCurrentFrame() ?? 0);
+
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    const onFrame = ({ detail }: { detail: { frame: number } }) => setFrame(detail.frame);
+    setFrame(player.getCurrentFrame());
+    player.addEventListener("frameupdate", onFrame);
+    player.addEventListener("seeked", onFrame);
+    return () => {
+      player.removeEventListener("frameupdate", onFrame);
+      player.removeEventListener("seeked", onFrame);
+    };
+  }, [playerRef]);
+
+  return frame;
+};
+
+export interface OnionSkinOverlayProps {
+  /** Player whose frame the ghosts surround */
+  playerRef: React.RefObject<PlayerRef | null>;
+  composition: CompositionConfig;
+  inputProps: Record<string, unknown>;
+  settings: CompareSettings;
+}
+
+/**
+ * Ghosted frames before and after the current frame, drawn on top of the
+ * Player to judge spacing and arcs.
+ */
+export const OnionSkinOverlay = ({
+  playerRef,
+  composition,
+  inputProps,
+  settings,
+}: OnionSkinOverlayProps) => {
+  const frame = usePlayerFrame(playerRef);
+
+  const ghosts = [
+    ...Array.from({ length: settings.before }, (_, i) => -(i + 1)),
+    ...Array.from({ length: settings.after }, (_, i) => i + 1),
+  ]
+    .map((distance) => ({
+      distance,
+      frame: frame + distance * settings.spacing,
+    }))
+    .filter((ghost) => ghost.frame >= 0 && ghost.frame < composition.durationInFrames);
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-10">
+      {ghosts.map(({ distance, frame: ghostFrame }) => {
+        const count = distance < 0 ? settings.before : settings.after;
+        const fade = 1 - (Math.abs(distance) - 1) / count;
+        return (
+          <Thumbnail
+            key={distance}
+            component={composition.component}
+            inputProps={inputProps}
+            frameToDisplay={ghostFrame}
+            durationInFrames={composition.durationInFrames}
+            fps={composition.fps}
+            compositionWidth={composition.width}
+            compositionHeight={composition.height}
+            style={{
+              position: "absolute",
+              inset: 0,
+              width: "100%",
+              height: "100%",
+              opacity: settings.opacity * fade,
+              filter: distance < 0 ? PAST_TINT : FUTURE_TINT,
+              mixBlendMode: "screen",
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+};
+
+export interface ComparePlayerProps {
+  /** Player the compare Player follows */
+  playerRef: React.RefObject<PlayerRef | null>;
+  composition: CompositionConfig;
+  inputProps: Record<string, unknown>;
+  /** Frames ahead of the main Player, negative to trail behind it */
+  offset: number;
+  style: React.CSSProperties;
+}
+
+/**
+ * Second Player showing the composition a fixed number of frames away from
+ * the main Player.
+ */
+export const ComparePlayer = ({
+  playerRef,
+  composition,
+  inputProps,
+  offset,
+  style,
+}: ComparePlayerProps) => {
+  const compareRef = useRef<PlayerRef>(null);
+  const frame = usePlayerFrame(playerRef);
+  const compareFrame = clampFrame(frame + offset, composition.durationInFrames);
+
+  useEffect(() => {
+    compareRef.current?.seekTo(compareFrame);
+  }, [compareFrame]);
+
+  return (
+    <div className="flex flex-col items-center gap-1 text-[11px] text-white/60">
+      <div className="overflow-hidden rounded-2xl border border-white/15 bg-black/30 ring-1 ring-white/10">
+        <Player
+          ref={compareRef}
+          component={composition.component}
+          inputProps={inputProps}
+          durationInFrames={composition.durationInFrames}
+          fps={composition.fps}
+          compositionWidth={composition.width}
+          compositionHeight={composition.height}
+          initialFrame={compareFrame}
+          style={style}
+          initiallyMuted
+        />
+      </div>
+      <span className="tabular-nums">
+        Frame {compareFrame} ({offset >= 0 ? "+" : ""}
+        {offset})
+      </span>
+    </div>
+  );
+};
+
+export interface CompareControlsProps {
+  settings: CompareSettings;
+  onChange: (settings: CompareSettings) => void;
+}
+
+const NumberInput = ({
+  label,
+  value,
+  min,
+  max,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  min: number;
+  max: number;
+  onChange: (value: number) => void;
+}) => (
+  <label className="flex items-center gap-1 text-xs">
+    {label}
+    <input
+      type="number"
+      className="w-12 rounded-md border border-white/15 bg-black/40 px-1 py-0.5 text-white"
+      value={value}
+      min={min}
+      max={max}
+      onChange={(e) => {
+        const next = Number(e.target.value);
+        if (Number.isFinite(next)) onChange(Math.max(min, Math.min(max, Math.round(next))));
+      }}
+    />
+  </label>
+);
+
+/**
+ * Toolbar controls for the compare mode.
+ */
+export const CompareControls = ({ settings, onChange }: CompareControlsProps) => {
+  const set = (patch: Partial<CompareSettings>) => onChange({ ...settings, ...patch });
+
+  return (
+    <div className="flex items-center gap-3">
+      <span>Compare</span>
+      <select
+        className="rounded-md border border-white/15 bg-black/40 px-2 py-1 text-xs text-white"
+        value={settings.mode}
+        onChange={(e) => set({ mode: e.target.value as CompareMode })}
+      >
+        <option value="off">Off</option>
+        <option value="sideBySide">Side by side</option>
+        <option value="onionSkin">Onion skin</option>
+      </select>
+      {settings.mode === "sideBySide" && (
+        <NumberInput
+          label="Offset"
+          value={settings.offset}
+          min={-999}
+          max={999}
+          onChange={(offset) => set({ offset })}
+        />
+      )}
+      {settings.mode === "onionSkin" && (
+        <>
+          <NumberInput
+            label="Before"
+            value={settings.before}
+            min={0}
+            max={MAX_ONION_SKINS}
+            onChange={(before) => set({ before })}
+          />
+          <NumberInput
+            label="After"
+            value={settings.after}
+            min={0}
+            max={MAX_ONION_SKINS}
+            onChange={(after) => set({ after })}
+          />
+          <NumberInput
+            label="Every"
+            value={settings.spacing}
+            min={1}
+            max={30}
+            onChange={(spacing) => set({ spacing })}
+          />
+          <label className="flex items-center gap-1 text-xs">
+            Opacity
+            <input
+              type="range"
+              min={0.05}
+              max={1}
+              step={0.05}
+              value={settings.opacity}
+              onChange={(e) => set({ opacity: Number(e.target.value) })}
+            />
+          </label>
+        </>
+      )}
+    </div>
+  );
+};
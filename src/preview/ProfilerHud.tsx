@@ -0,0 +1,273 @@
+import { useEffect, useState } from "react";
+import type { PlayerRef } from "@remotion/player";
+import {
+  COMPOSITION_SAMPLE_NAME,
+  type RenderProfiler,
+  type RenderSample,
+} from "../remotion/library";
+
+/**
+ * Render cost of the latest commit of one frame.
+ */
+interface FrameCost {
+  frame: number;
+  /** Render time of the whole composition, in milliseconds */
+  total: number;
+  /** Commit time of the whole composition, in milliseconds */
+  commit: number;
+  /** Render time per profiled component, in milliseconds */
+  components: Record<string, number>;
+  commitTime: number;
+}
+
+/**
+ * Render cost of one component over all recorded frames.
+ */
+interface ComponentCost {
+  name: string;
+  total: number;
+  max: number;
+  count: number;
+}
+
+/**
+ * Collects the samples of a profiled composition, see `profileComposition`.
+ */
+export interface RenderCollector {
+  profiler: RenderProfiler;
+  /** Latest cost of each rendered frame */
+  frames: Map<number, FrameCost>;
+  /** Accumulated cost of each profiled component */
+  components: Map<string, ComponentCost>;
+  reset: () => void;
+}
+
+export const createRenderCollector = (): RenderCollector => {
+  const frames = new Map<number, FrameCost>();
+  const components = new Map<string, ComponentCost>();
+
+  const record = (sample: RenderSample) => {
+    // A frame rendered again replaces its previous cost
+    let cost = frames.get(sample.frame);
+    if (!cost || cost.commitTime !== sample.commitTime) {
+      cost = {
+        frame: sample.frame,
+        total: 0,
+        commit: 0,
+        components: {},
+        commitTime: sample.commitTime,
+      };
+      frames.set(sample.frame, cost);
+    }
+
+    if (sample.name === COMPOSITION_SAMPLE_NAME) {
+      cost.total += sample.duration;
+      cost.commit += sample.commitDuration ?? 0;
+      return;
+    }
+    cost.components[sample.name] = (cost.components[sample.name] ?? 0) + sample.duration;
+
+    const component = components.get(sample.name) ?? {
+      name: sample.name,
+      total: 0,
+      max: 0,
+      count: 0,
+    };
+    component.total += sample.duration;
+    component.max = Math.max(component.max, sample.duration);
+    component.count += 1;
+    components.set(sample.name, component);
+  };
+
+  return {
+    profiler: { record },
+    frames,
+    components,
+    reset: () => {
+      frames.clear();
+      components.clear();
+    },
+  };
+};
+
+// Interval at which the HUD reads the collector, in milliseconds
+const REFRESH_INTERVAL_MS = 500;
+
+// Number of frames listed as the most expensive
+const WORST_FRAME_COUNT = 5;
+
+const GRAPH_WIDTH = 280;
+const GRAPH_HEIGHT = 64;
+
+const formatMs = (ms: number) => `${ms.toFixed(1)}ms`;
+
+// Time a frame took to render and commit, in milliseconds
+const getFrameTime = (cost: FrameCost) => cost.total + cost.commit;
+
+export interface ProfilerHudProps {
+  collector: RenderCollector;
+  /** Player to seek when a frame is picked */
+  playerRef: React.RefObject<PlayerRef | null>;
+  /** Length of the composition in frames */
+  durationInFrames: number;
+  /** Frames per second of the composition, sets the frame budget */
+  fps: number;
+}
+
+/**
+ * Heads-up display of the render cost recorded by a `RenderCollector`:
+ * a graph of render and commit milliseconds per frame against the frame
+ * budget, render totals per library component and the most expensive
+ * frames.
+ */
+export const ProfilerHud = ({
+  collector,
+  playerRef,
+  durationInFrames,
+  fps,
+}: ProfilerHudProps) => {
+  const [, setRevision] = useState(0);
+
+  // The collector is written during React commits, read it on a timer
+  useEffect(() => {
+    const interval = setInterval(() => setRevision((r) => r + 1), REFRESH_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, []);
+
+  const budget = 1000 / fps;
+  const frames = [...collector.frames.values()];
+  const components = [...collector.components.values()].sort((a, b) => b.total - a.total);
+  const worstFrames = [...frames]
+    .sort((a, b) => getFrameTime(b) - getFrameTime(a))
+    .slice(0, WORST_FRAME_COUNT);
+  const peak = Math.max(budget * 1.5, ...frames.map(getFrameTime));
+  const barWidth = Math.max(1, GRAPH_WIDTH / durationInFrames);
+  const toY = (ms: number) => GRAPH_HEIGHT - (ms / peak) * GRAPH_HEIGHT;
+
+  const seekTo = (frame: number) => {
+    const player = playerRef.current;
+    if (!player) return;
+    player.pause();
+    player.seekTo(frame);
+  };
+
+  return (
+    <div className="absolute bottom-4 left-4 z-20 w-[304px] rounded-xl border border-white/15 bg-black/70 p-3 text-[11px] text-white/70 backdrop-blur-sm">
+      <div className="mb-2 flex items-center justify-between">
+        <span className="font-semibold uppercase tracking-wide text-white/90">Render cost</span>
+        <button
+          type="button"
+          className="rounded-md border border-white/15 px-2 py-0.5 hover:bg-white/10"
+          onClick={() => {
+            collector.reset();
+            setRevision((r) => r + 1);
+          }}
+        >
+          Reset
+        </button>
+      </div>
+
+      <svg
+        width={GRAPH_WIDTH}
+        height={GRAPH_HEIGHT}
+        className="cursor-pointer rounded bg-white/5"
+        onClick={(e) => {
+          const rect = e.currentTarget.getBoundingClientRect();
+          seekTo(Math.floor(((e.clientX - rect.left) / rect.width) * durationInFrames));
+        }}
+      >
+        {frames.map((f) => (
+          <g key={f.frame}>
+            <rect
+              x={(f.frame / durationInFrames) * GRAPH_WIDTH}
+              y={toY(f.total)}
+              width={barWidth}
+              height={GRAPH_HEIGHT - toY(f.total)}
+              className={getFrameTime(f) > budget ? "fill-red-400" : "fill-sky-400/80"}
+            />
+            {/* Commit time stacked on top of the render time */}
+            <rect
+              x={(f.frame / durationInFrames) * GRAPH_WIDTH}
+              y={toY(getFrameTime(f))}
+              width={barWidth}
+              height={toY(f.total) - toY(getFrameTime(f))}
+              className="fill-violet-300/80"
+            />
+          </g>
+        ))}
+        <line
+          x1={0}
+          x2={GRAPH_WIDTH}
+          y1={toY(budget)}
+          y2={toY(budget)}
+          className="stroke-amber-300"
+          strokeDasharray="3 3"
+        />
+      </svg>
+      <div className="mt-1 flex justify-between tabular-nums text-white/40">
+        <span>
+          {frames.length} frames · <span className="text-sky-400">render</span>{" "}
+          <span className="text-violet-300">commit</span>
+        </span>
+        <span>budget {formatMs(budget)}</span>
+      </div>
+
+      {components.length > 0 && (
+        <table className="mt-2 w-full tabular-nums">
+          <thead className="text-white/40">
+            <tr>
+              <th className="text-left font-normal">Component</th>
+              <th className="text-right font-normal">Total</th>
+              <th className="text-right font-normal">Avg</th>
+              <th className="text-right font-normal">Max</th>
+            </tr>
+          </thead>
+          <tbody>
+            {components.map((c) => (
+              <tr key={c.name}>
+                <td>{c.name}</td>
+                <td className="text-right">{formatMs(c.total)}</td>
+                <td className="text-right">{formatMs(c.total / c.count)}</td>
+                <td className="text-right">{formatMs(c.max)}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+
+      {worstFrames.length > 0 && (
+        <div className="mt-2">
+          <div className="text-white/40">Worst frames</div>
+          {worstFrames.map((f) => {
+            const culprit = Object.entries(f.components).sort((a, b) => b[1] - a[1])[0];
+            return (
+              <button
+                key={f.frame}
+                type="button"
+                className="flex w-full justify-between rounded px-1 tabular-nums hover:bg-white/10"
+                onClick={() => seekTo(f.frame)}
+              >
+                <span>
+                  Frame {f.frame}
+                  {culprit && ` · ${culprit[0]} ${formatMs(culprit[1])}`}
+                </span>
+                <span
+                  className={getFrameTime(f) > budget ? "text-red-400" : undefined}
+                  title={`render ${formatMs(f.total)} · commit ${formatMs(f.commit)}`}
+                >
+                  {formatMs(getFrameTime(f))}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+      )}
+
+      {frames.length === 0 && (
+        <p className="mt-2 text-white/40">
+          Play or scrub to record frames. Timings need a development build of React.
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,335 @@
+import { useRef, useState } from "react";
+import {
+  getFieldDefault,
+  getPropsError,
+  type ArrayField,
+  type ObjectField,
+  type PropField,
+  type PropSchema,
+} from "../remotion/schema";
+
+export interface PropsPanelProps {
+  /** Id of the composition, used for the exported file name */
+  compositionId: string;
+  /** Schema describing the editable props */
+  schema: PropSchema;
+  /** Current input props */
+  value: Record<string, unknown>;
+  /** Props restored by the reset button */
+  defaultProps: Record<string, unknown>;
+  /** Called with the full props object on every edit */
+  onChange: (value: Record<string, unknown>) => void;
+}
+
+const inputClassName =
+  "w-full rounded-md border border-white/15 bg-black/40 px-2 py-1 text-sm text-white outline-none focus:border-sky-400";
+
+const buttonClassName =
+  "rounded-md border border-white/15 bg-white/5 px-2 py-1 text-xs text-white/80 hover:bg-white/10 disabled:opacity-40";
+
+const labelFor = (name: string, field: PropField) => field.label ?? name;
+
+interface FieldControlProps {
+  name: string;
+  field: PropField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}
+
+const ObjectControl = ({
+  field,
+  value,
+  onChange,
+}: {
+  field: ObjectField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) => {
+  const object =
+    value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+  return (
+    <div className="flex flex-col gap-2">
+      {Object.entries(field.fields).map(([key, child]) => (
+        <FieldControl
+          key={key}
+          name={key}
+          field={child}
+          value={object[key]}
+          onChange={(next) => onChange({ ...object, [key]: next })}
+        />
+      ))}
+    </div>
+  );
+};
+
+const ArrayControl = ({
+  field,
+  value,
+  onChange,
+}: {
+  field: ArrayField;
+  value: unknown;
+  onChange: (value: unknown) => void;
+}) => {
+  const items = Array.isArray(value) ? value : [];
+  const canAdd = field.maxItems === undefined || items.length < field.maxItems;
+  const canRemove = items.length > (field.minItems ?? 0);
+
+  const move = (from: number, to: number) => {
+    const next = [...items];
+    const [item] = next.splice(from, 1);
+    next.splice(to, 0, item);
+    onChange(next);
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      {items.map((item, i) => (
+        <div
+          key={i}
+          className="flex flex-col gap-2 rounded-md border border-white/10 bg-white/5 p-2"
+        >
+          <div className="flex items-center justify-between text-xs text-white/50">
+            <span>#{i + 1}</span>
+            <div className="flex gap-1">
+              <button
+                type="button"
+                className={buttonClassName}
+                disabled={i === 0}
+                onClick={() => move(i, i - 1)}
+              >
+                ↑
+              </button>
+              <button
+                type="button"
+                className={buttonClassName}
+                disabled={i === items.length - 1}
+                onClick={() => move(i, i + 1)}
+              >
+                ↓
+              </button>
+              <button
+                type="button"
+                className={buttonClassName}
+                disabled={!canRemove}
+                onClick={() => onChange(items.filter((_, j) => j !== i))}
+              >
+                Remove
+              </button>
+            </div>
+          </div>
+          <FieldControl
+            name={`${i + 1}`}
+            field={field.item}
+            value={item}
+            onChange={(next) =>
+              onChange(items.map((existing, j) => (j === i ? next : existing)))
+            }
+          />
+        </div>
+      ))}
+      <button
+        type="button"
+        className={buttonClassName}
+        disabled={!canAdd}
+        onClick={() => onChange([...items, getFieldDefault(field.item)])}
+      >
+        Add item
+      </button>
+    </div>
+  );
+};
+
+/**
+ * Form control for a single schema field. Recurses into objects and arrays.
+ */
+const FieldControl = ({ name, field, value, onChange }: FieldControlProps) => {
+  const label = labelFor(name, field);
+
+  const control = (() => {
+    switch (field.type) {
+      case "text":
+        return field.multiline ? (
+          <textarea
+            className={inputClassName}
+            rows={3}
+            value={String(value ?? "")}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        ) : (
+          <input
+            className={inputClassName}
+            type="text"
+            value={String(value ?? "")}
+            onChange={(e) => onChange(e.target.value)}
+          />
+        );
+      case "number":
+        return (
+          <input
+            className={inputClassName}
+            type="number"
+            min={field.min}
+            max={field.max}
+            step={field.step}
+            value={typeof value === "number" ? value : ""}
+            onChange={(e) => {
+              const next = e.target.valueAsNumber;
+              if (!isNaN(next)) onChange(next);
+            }}
+          />
+        );
+      case "boolean":
+        return (
+          <input
+            type="checkbox"
+            checked={Boolean(value)}
+            onChange={(e) => onChange(e.target.checked)}
+          />
+        );
+      case "color":
+        return (
+          <div className="flex gap-2">
+            <input
+              type="color"
+              className="h-7 w-9 shrink-0 cursor-pointer rounded border border-white/15 bg-transparent"
+              // The native picker only understands #rrggbb
+              value={/^#[0-9a-f]{6}$/i.test(String(value)) ? String(value) : "#000000"}
+              onChange={(e) => onChange(e.target.value)}
+            />
+            <input
+              className={inputClassName}
+              type="text"
+              value={String(value ?? "")}
+              onChange={(e) => onChange(e.target.value)}
+            />
+          </div>
+        );
+      case "enum":
+        return (
+          <select
+            className={inputClassName}
+            value={String(value ?? "")}
+            onChange={(e) => onChange(e.target.value)}
+          >
+            {field.options.map((option) => (
+              <option key={option} value={option}>
+                {option}
+              </option>
+            ))}
+          </select>
+        );
+      case "object":
+        return <ObjectControl field={field} value={value} onChange={onChange} />;
+      case "array":
+        return <ArrayControl field={field} value={value} onChange={onChange} />;
+    }
+  })();
+
+  // Nested controls contain buttons, which must not be activated by a label
+  const Wrapper = field.type === "object" || field.type === "array" ? "div" : "label";
+
+  return (
+    <Wrapper className="flex flex-col gap-1 text-xs text-white/70">
+      <span className="font-medium">{label}</span>
+      {control}
+      {field.description && (
+        <span className="text-white/40">{field.description}</span>
+      )}
+    </Wrapper>
+  );
+};
+
+/**
+ * Side panel generating form controls from a composition's prop schema.
+ * Props can be exported to and imported from JSON files.
+ */
+export const PropsPanel = ({
+  compositionId,
+  schema,
+  value,
+  defaultProps,
+  onChange,
+}: PropsPanelProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+
+  const exportProps = () => {
+    const blob = new Blob([JSON.stringify(value, null, 2)], {
+      type: "application/json",
+    });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement("a");
+    link.href = url;
+    link.download = `${compositionId}.props.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const importProps = async (file: File) => {
+    try {
+      const parsed: unknown = JSON.parse(await file.text());
+      if (!parsed || typeof parsed !== "object" || Array.isArray(parsed)) {
+        throw new Error("Expected a JSON object");
+      }
+      const props = { ...defaultProps, ...(parsed as Record<string, unknown>) };
+      const error = getPropsError(schema, props);
+      if (error) throw new Error(error);
+      setImportError(null);
+      onChange(props);
+    } catch (error) {
+      setImportError(`Could not import ${file.name}: ${(error as Error).message}`);
+    }
+  };
+
+  return (
+    <aside className="relative flex h-full w-80 shrink-0 flex-col gap-3 overflow-y-auto rounded-2xl border border-white/15 bg-black/30 p-4 text-white backdrop-blur-sm">
+      <div className="flex items-center justify-between">
+        <h2 className="text-sm font-semibold">Props</h2>
+        <div className="flex gap-1">
+          <button
+            type="button"
+            className={buttonClassName}
+            onClick={() => onChange({ ...defaultProps })}
+          >
+            Reset
+          </button>
+          <button
+            type="button"
+            className={buttonClassName}
+            onClick={() => fileInputRef.current?.click()}
+          >
+            Import
+          </button>
+          <button type="button" className={buttonClassName} onClick={exportProps}>
+            Export
+          </button>
+        </div>
+      </div>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          if (file) importProps(file);
+          e.target.value = "";
+        }}
+      />
+      {importError && <p className="text-xs text-red-400">{importError}</p>}
+      {Object.entries(schema).map(([name, field]) =>
+        field ? (
+          <FieldControl
+            key={name}
+            name={name}
+            field={field}
+            value={value[name]}
+            onChange={(next) => onChange({ ...value, [name]: next })}
+          />
+        ) : null,
+      )}
+    </aside>
+  );
+};
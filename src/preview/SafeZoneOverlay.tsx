@@ -0,0 +1,228 @@
+import type { SocialPlatform } from "../remotion/library";
+
+/**
+ * A region covered by platform UI, in percent of the frame.
+ */
+interface UiZone {
+  label: string;
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+interface PlatformMask {
+  /** Name of the placement shown in the toolbar */
+  name: string;
+  /** Zones covered by UI on vertical (9:16) video */
+  vertical: UiZone[];
+  /** Zones covered by UI on landscape and square video */
+  landscape: UiZone[];
+}
+
+/**
+ * Approximate UI coverage of each platform's player, measured on current
+ * iOS apps. Treat them as guides, not pixel-exact specs.
+ */
+const PLATFORM_MASKS: Record<SocialPlatform, PlatformMask> = {
+  tiktok: {
+    name: "TikTok",
+    vertical: [
+      { label: "Tabs", top: 0, left: 0, width: 100, height: 7.5 },
+      { label: "Actions", top: 36, left: 87, width: 13, height: 44 },
+      { label: "Caption", top: 73, left: 0, width: 82, height: 14 },
+      { label: "Navigation", top: 87, left: 0, width: 100, height: 13 },
+    ],
+    landscape: [{ label: "Caption", top: 82, left: 0, width: 100, height: 18 }],
+  },
+  instagram: {
+    name: "Instagram Reels",
+    vertical: [
+      { label: "Header", top: 0, left: 0, width: 100, height: 7 },
+      { label: "Actions", top: 50, left: 86, width: 14, height: 36 },
+      { label: "Caption", top: 76, left: 0, width: 84, height: 12 },
+      { label: "Navigation", top: 88, left: 0, width: 100, height: 12 },
+    ],
+    landscape: [
+      { label: "Account", top: 0, left: 0, width: 100, height: 10 },
+      { label: "Engagement", top: 88, left: 0, width: 100, height: 12 },
+    ],
+  },
+  youtube: {
+    name: "YouTube / Shorts",
+    vertical: [
+      { label: "Header", top: 0, left: 0, width: 100, height: 7 },
+      { label: "Actions", top: 45, left: 86, width: 14, height: 42 },
+      { label: "Title & channel", top: 74, left: 0, width: 84, height: 13 },
+      { label: "Navigation", top: 87, left: 0, width: 100, height: 13 },
+    ],
+    landscape: [
+      { label: "Title", top: 0, left: 0, width: 100, height: 10 },
+      { label: "Controls", top: 88, left: 0, width: 100, height: 12 },
+    ],
+  },
+  twitter: {
+    name: "X / Twitter",
+    vertical: [
+      { label: "Header", top: 0, left: 0, width: 100, height: 6 },
+      { label: "Actions", top: 86, left: 0, width: 100, height: 14 },
+    ],
+    landscape: [{ label: "Controls", top: 88, left: 0, width: 100, height: 12 }],
+  },
+  linkedin: {
+    name: "LinkedIn",
+    vertical: [
+      { label: "Header", top: 0, left: 0, width: 100, height: 6 },
+      { label: "Caption & actions", top: 80, left: 0, width: 100, height: 20 },
+    ],
+    landscape: [{ label: "Controls", top: 88, left: 0, width: 100, height: 12 }],
+  },
+};
+
+export const SAFE_ZONE_PLATFORMS = Object.keys(PLATFORM_MASKS) as SocialPlatform[];
+
+/**
+ * Which guides are shown over the Player.
+ */
+export interface SafeZoneSettings {
+  /** Broadcast action-safe area (93% of the frame) */
+  actionSafe: boolean;
+  /** Broadcast title-safe area (90% of the frame) */
+  titleSafe: boolean;
+  /** Rule-of-thirds grid */
+  thirds: boolean;
+  /** Center crosshair */
+  crosshair: boolean;
+  /** Platform whose UI is masked, if any */
+  platform: SocialPlatform | null;
+}
+
+export const defaultSafeZoneSettings: SafeZoneSettings = {
+  actionSafe: false,
+  titleSafe: false,
+  thirds: false,
+  crosshair: false,
+  platform: null,
+};
+
+// Inset per side in percent, following SMPTE ST 2046-1
+const ACTION_SAFE_INSET = 3.5;
+const TITLE_SAFE_INSET = 5;
+
+const SafeArea = ({ inset, label }: { inset: number; label: string }) => (
+  <div
+    className="absolute border border-dashed border-yellow-300/80"
+    style={{ inset: `${inset}%` }}
+  >
+    <span className="absolute left-1 top-0.5 text-[10px] uppercase tracking-wide text-yellow-300/80">
+      {label}
+    </span>
+  </div>
+);
+
+export interface SafeZoneOverlayProps {
+  settings: SafeZoneSettings;
+  /** Width of the composition, used to pick vertical or landscape masks */
+  width: number;
+  /** Height of the composition */
+  height: number;
+}
+
+/**
+ * Guides drawn on top of the Player: broadcast safe areas, rule of thirds,
+ * center crosshair and the UI of a social platform.
+ */
+export const SafeZoneOverlay = ({ settings, width, height }: SafeZoneOverlayProps) => {
+  const mask = settings.platform ? PLATFORM_MASKS[settings.platform] : null;
+  const zones = mask ? (height > width ? mask.vertical : mask.landscape) : [];
+
+  return (
+    <div className="pointer-events-none absolute inset-0 z-10 overflow-hidden">
+      {zones.map((zone) => (
+        <div
+          key={zone.label}
+          className="absolute flex items-center justify-center bg-red-500/30 outline outline-1 outline-red-400/70"
+          style={{
+            top: `${zone.top}%`,
+            left: `${zone.left}%`,
+            width: `${zone.width}%`,
+            height: `${zone.height}%`,
+          }}
+        >
+          <span className="text-[10px] font-semibold uppercase tracking-wide text-white/90">
+            {zone.label}
+          </span>
+        </div>
+      ))}
+      {settings.actionSafe && <SafeArea inset={ACTION_SAFE_INSET} label="Action safe" />}
+      {settings.titleSafe && <SafeArea inset={TITLE_SAFE_INSET} label="Title safe" />}
+      {settings.thirds &&
+        [1, 2].map((i) => (
+          <div key={i}>
+            <div
+              className="absolute inset-y-0 w-px bg-white/40"
+              style={{ left: `${(i * 100) / 3}%` }}
+            />
+            <div
+              className="absolute inset-x-0 h-px bg-white/40"
+              style={{ top: `${(i * 100) / 3}%` }}
+            />
+          </div>
+        ))}
+      {settings.crosshair && (
+        <div className="absolute left-1/2 top-1/2 h-8 w-8 -translate-x-1/2 -translate-y-1/2">
+          <div className="absolute inset-x-0 top-1/2 h-px bg-white/70" />
+          <div className="absolute inset-y-0 left-1/2 w-px bg-white/70" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export interface SafeZoneControlsProps {
+  settings: SafeZoneSettings;
+  onChange: (settings: SafeZoneSettings) => void;
+}
+
+const toggles: { key: Exclude<keyof SafeZoneSettings, "platform">; label: string }[] = [
+  { key: "actionSafe", label: "Action safe" },
+  { key: "titleSafe", label: "Title safe" },
+  { key: "thirds", label: "Thirds" },
+  { key: "crosshair", label: "Center" },
+];
+
+/**
+ * Toolbar controls toggling the safe zone guides.
+ */
+export const SafeZoneControls = ({ settings, onChange }: SafeZoneControlsProps) => (
+  <div className="flex items-center gap-3">
+    <span>Guides</span>
+    {toggles.map(({ key, label }) => (
+      <label key={key} className="flex items-center gap-1 text-xs">
+        <input
+          type="checkbox"
+          checked={settings[key]}
+          onChange={(e) => onChange({ ...settings, [key]: e.target.checked })}
+        />
+        {label}
+      </label>
+    ))}
+    <select
+      className="rounded-md border border-white/15 bg-black/40 px-2 py-1 text-xs text-white"
+      value={settings.platform ?? ""}
+      onChange={(e) =>
+        onChange({
+          ...settings,
+          platform: (e.target.value || null) as SocialPlatform | null,
+        })
+      }
+    >
+      <option value="">No platform UI</option>
+      {SAFE_ZONE_PLATFORMS.map((platform) => (
+        <option key={platform} value={platform}>
+          {PLATFORM_MASKS[platform].name}
+        </option>
+      ))}
+    </select>
+  </div>
+);
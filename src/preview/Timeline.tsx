@@ -0,0 +1,152 @@
+import { useEffect, useMemo, useState } from "react";
+import type { PlayerRef } from "@remotion/player";
+import type { SequenceReport, SequenceScene } from "../remotion/library";
+
+export interface TimelineProps {
+  /** Player to follow and seek */
+  playerRef: React.RefObject<PlayerRef | null>;
+  /** Scenes and beats published by the composition */
+  sequence: SequenceReport;
+  /** Length of the composition in frames */
+  durationInFrames: number;
+  /** Frames per second of the composition */
+  fps: number;
+  /** First frame of the loop range */
+  inFrame?: number | null;
+  /** Last frame of the loop range */
+  outFrame?: number | null;
+}
+
+// Height of one scene lane, in pixels
+const LANE_HEIGHT = 22;
+
+/**
+ * Distribute scenes over lanes so overlapping scenes don't cover each other.
+ */
+const assignLanes = (scenes: SequenceScene[]) => {
+  const laneEnds: number[] = [];
+  const sorted = [...scenes].sort((a, b) => a.at - b.at);
+
+  return sorted.map((scene) => {
+    let lane = laneEnds.findIndex((end) => end <= scene.at);
+    if (lane === -1) {
+      lane = laneEnds.length;
+      laneEnds.push(0);
+    }
+    laneEnds[lane] = scene.at + scene.duration;
+    return { scene, lane };
+  });
+};
+
+/**
+ * Timeline strip showing the scenes and beats of the active composition.
+ * Clicking a scene seeks to its start, the scene under the playhead is
+ * highlighted.
+ */
+export const Timeline = ({
+  playerRef,
+  sequence,
+  durationInFrames,
+  fps,
+  inFrame = null,
+  outFrame = null,
+}: TimelineProps) => {
+  const [frame, setFrame] = useState(() => playerRef.current?.getCurrentFrame() ?? 0);
+
+  // Follow the playhead
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    const onFrame = ({ detail }: { detail: { frame: number } }) => setFrame(detail.frame);
+    player.addEventListener("frameupdate", onFrame);
+    player.addEventListener("seeked", onFrame);
+    return () => {
+      player.removeEventListener("frameupdate", onFrame);
+      player.removeEventListener("seeked", onFrame);
+    };
+  }, [playerRef]);
+
+  const lanes = useMemo(() => assignLanes(sequence.scenes), [sequence.scenes]);
+  const laneCount = Math.max(1, ...lanes.map(({ lane }) => lane + 1));
+
+  const toPercent = (f: number) => (f / durationInFrames) * 100;
+  const time = frame / fps;
+
+  const seekTo = (f: number) => {
+    playerRef.current?.seekTo(Math.max(0, Math.min(durationInFrames - 1, f)));
+  };
+
+  const seekToPointer = (e: React.MouseEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    seekTo(Math.round(((e.clientX - rect.left) / rect.width) * durationInFrames));
+  };
+
+  return (
+    <div className="w-full select-none rounded-xl border border-white/15 bg-black/30 px-3 py-2 text-[11px] text-white/70 backdrop-blur-sm">
+      <div
+        className="relative cursor-pointer"
+        style={{ height: laneCount * LANE_HEIGHT + 14 }}
+        onClick={seekToPointer}
+      >
+        {inFrame !== null && outFrame !== null && (
+          <div
+            className="absolute inset-y-0 bg-sky-400/10"
+            style={{
+              left: `${toPercent(inFrame)}%`,
+              width: `${toPercent(outFrame - inFrame)}%`,
+            }}
+          />
+        )}
+        {lanes.map(({ scene, lane }, i) => {
+          const isActive = time >= scene.at && time < scene.at + scene.duration;
+          return (
+            <button
+              // Ids are only unique per useSequence call
+              key={`${scene.id}-${i}`}
+              type="button"
+              title={`${scene.id} (${scene.at}s – ${scene.at + scene.duration}s)`}
+              className={`absolute overflow-hidden truncate rounded px-1.5 text-left transition-colors ${
+                isActive
+                  ? "bg-sky-400/80 text-black"
+                  : "bg-white/10 text-white/80 hover:bg-white/20"
+              }`}
+              style={{
+                top: lane * LANE_HEIGHT,
+                height: LANE_HEIGHT - 4,
+                left: `${toPercent(scene.at * fps)}%`,
+                width: `${toPercent(scene.duration * fps)}%`,
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                seekTo(Math.round(scene.at * fps));
+              }}
+            >
+              {scene.id}
+            </button>
+          );
+        })}
+        {sequence.beats.map((beat, i) => (
+          <div
+            key={`${beat.id}-${i}`}
+            title={`${beat.id} (${beat.at}s)`}
+            className={`absolute bottom-0 h-3 w-0.5 ${
+              time >= beat.at ? "bg-amber-300" : "bg-amber-300/40"
+            }`}
+            style={{ left: `${toPercent(beat.at * fps)}%` }}
+          />
+        ))}
+        <div
+          className="pointer-events-none absolute inset-y-0 w-px bg-red-400"
+          style={{ left: `${toPercent(frame)}%` }}
+        />
+      </div>
+      <div className="mt-1 flex justify-between tabular-nums text-white/40">
+        <span>
+          {frame} / {durationInFrames - 1}
+        </span>
+        <span>{time.toFixed(2)}s</span>
+      </div>
+    </div>
+  );
+};
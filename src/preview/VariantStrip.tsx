@@ -0,0 +1,113 @@
+import { useEffect, useRef } from "react";
+import { Player, type PlayerRef } from "@remotion/player";
+import type { CompositionConfig } from "../remotion/compositions";
+
+/** Size of the square box each variant is fitted into, in pixels */
+export const VARIANT_BOX_SIZE = 200;
+
+export interface VariantStripProps {
+  /** Player whose frame the variants follow */
+  playerRef: React.RefObject<PlayerRef | null>;
+  /** Variants to show next to the main Player */
+  variants: CompositionConfig[];
+  /** Input props shared by all variants */
+  inputProps: Record<string, unknown>;
+  /** Called when a variant is clicked */
+  onSelect: (id: string) => void;
+}
+
+const fitInBox = (width: number, height: number) => {
+  const factor = VARIANT_BOX_SIZE / Math.max(width, height);
+  return { width: width * factor, height: height * factor };
+};
+
+const VariantPlayer = ({
+  variant,
+  inputProps,
+  followerRef,
+  onSelect,
+}: {
+  variant: CompositionConfig;
+  inputProps: Record<string, unknown>;
+  followerRef: (player: PlayerRef | null) => void;
+  onSelect: () => void;
+}) => (
+  <div
+    role="button"
+    title={`Open ${variant.id}`}
+    className="flex cursor-pointer flex-col items-center gap-1 text-[11px] text-white/60 hover:text-white"
+    onClick={onSelect}
+  >
+    <div
+      className="flex items-center justify-center"
+      style={{ width: VARIANT_BOX_SIZE, height: VARIANT_BOX_SIZE }}
+    >
+      <Player
+        ref={followerRef}
+        component={variant.component}
+        inputProps={inputProps}
+        durationInFrames={variant.durationInFrames}
+        fps={variant.fps}
+        compositionWidth={variant.width}
+        compositionHeight={variant.height}
+        style={{
+          ...fitInBox(variant.width, variant.height),
+          pointerEvents: "none",
+        }}
+        className="overflow-hidden rounded-lg border border-white/15"
+        initiallyMuted
+      />
+    </div>
+    <span>
+      {variant.id} ({variant.width}x{variant.height})
+    </span>
+  </div>
+);
+
+/**
+ * Other size variants of the current composition, shown side by side with
+ * the main Player and kept on the same frame.
+ */
+export const VariantStrip = ({
+  playerRef,
+  variants,
+  inputProps,
+  onSelect,
+}: VariantStripProps) => {
+  const followersRef = useRef(new Map<string, PlayerRef>());
+
+  // Follow the main Player's frame
+  useEffect(() => {
+    const player = playerRef.current;
+    if (!player) return;
+
+    const onFrame = ({ detail }: { detail: { frame: number } }) => {
+      followersRef.current.forEach((follower) => follower.seekTo(detail.frame));
+    };
+    onFrame({ detail: { frame: player.getCurrentFrame() } });
+
+    player.addEventListener("frameupdate", onFrame);
+    player.addEventListener("seeked", onFrame);
+    return () => {
+      player.removeEventListener("frameupdate", onFrame);
+      player.removeEventListener("seeked", onFrame);
+    };
+  }, [playerRef, variants]);
+
+  return (
+    <div className="flex shrink-0 flex-col gap-3">
+      {variants.map((variant) => (
+        <VariantPlayer
+          key={variant.id}
+          variant={variant}
+          inputProps={inputProps}
+          followerRef={(follower) => {
+            if (follower) followersRef.current.set(variant.id, follower);
+            else followersRef.current.delete(variant.id);
+          }}
+          onSelect={() => onSelect(variant.id)}
+        />
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,154 @@
+import {
+  defaultComposition,
+  getComposition,
+  type CompositionConfig,
+} from "../remotion/compositions";
+import { getPropsError } from "../remotion/schema";
+
+/**
+ * Review state of the preview app, persisted in the URL hash so a pasted
+ * link reopens the exact moment and configuration.
+ *
+ * @example
+ * #composition=Showcase&frame=120&in=60&out=180&rate=0.5&muted=1&props=%7B%22title%22%3A%22Hi%22%7D
+ */
+export interface PreviewState {
+  /** Selected composition */
+  composition: CompositionConfig;
+  /** Frame to open at, or null to autoplay from the start */
+  frame: number | null;
+  /** First frame of the loop range */
+  inFrame: number | null;
+  /** Last frame of the loop range */
+  outFrame: number | null;
+  /** Playback speed (negative plays backwards) */
+  playbackRate: number;
+  /** Whether audio is muted */
+  muted: boolean;
+  /** Input props passed to the composition */
+  inputProps: Record<string, unknown>;
+}
+
+const parseFrame = (value: string | null): number | null => {
+  if (value === null) return null;
+  const frame = parseInt(value, 10);
+  if (isNaN(frame) || frame < 0) return null;
+  return frame;
+};
+
+const parseRate = (value: string | null): number => {
+  if (value === null) return 1;
+  const rate = parseFloat(value);
+  // The Player accepts rates between -4 and 4, excluding 0
+  if (isNaN(rate) || rate === 0 || Math.abs(rate) > 4) return 1;
+  return rate;
+};
+
+const parseProps = (value: string | null): Record<string, unknown> | null => {
+  if (!value) return null;
+  try {
+    const parsed: unknown = JSON.parse(value);
+    if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+      return parsed as Record<string, unknown>;
+    }
+  } catch {
+    // Ignore malformed props and fall back to the defaults
+  }
+  return null;
+};
+
+// Props from the hash merged over the defaults. Props that don't match the
+// composition schema, e.g. edited by hand, are dropped for the defaults
+const resolveProps = (
+  value: string | null,
+  composition: CompositionConfig,
+): Record<string, unknown> => {
+  const props = { ...composition.defaultProps, ...parseProps(value) };
+  if (composition.schema && getPropsError(composition.schema, props)) {
+    return { ...composition.defaultProps };
+  }
+  return props;
+};
+
+const clampFrame = (frame: number | null, composition: CompositionConfig) =>
+  frame === null ? null : Math.min(frame, composition.durationInFrames - 1);
+
+/**
+ * The state a composition opens with when nothing is specified.
+ */
+export const getInitialPreviewState = (
+  composition: CompositionConfig,
+): PreviewState => ({
+  composition,
+  frame: null,
+  inFrame: null,
+  outFrame: null,
+  playbackRate: 1,
+  muted: false,
+  inputProps: { ...composition.defaultProps },
+});
+
+/**
+ * Parse a URL hash into a preview state. Missing or invalid values, and
+ * props not matching the composition schema, fall back to the defaults,
+ * and frames are clamped to the composition duration.
+ */
+export const parsePreviewState = (hash: string): PreviewState => {
+  const params = new URLSearchParams(hash.replace(/^#/, ""));
+  const composition =
+    getComposition(params.get("composition")) ?? defaultComposition;
+
+  let inFrame = clampFrame(parseFrame(params.get("in")), composition);
+  let outFrame = clampFrame(parseFrame(params.get("out")), composition);
+  if (inFrame !== null && outFrame !== null && inFrame >= outFrame) {
+    inFrame = null;
+    outFrame = null;
+  }
+
+  return {
+    composition,
+    frame: clampFrame(parseFrame(params.get("frame")), composition),
+    inFrame,
+    outFrame,
+    playbackRate: parseRate(params.get("rate")),
+    muted: params.get("muted") === "1",
+    inputProps: resolveProps(params.get("props"), composition),
+  };
+};
+
+/**
+ * Serialize a preview state into a URL hash. Values equal to their defaults
+ * are omitted to keep links short.
+ */
+export const serializePreviewState = (state: PreviewState): string => {
+  const params = new URLSearchParams({ composition: state.composition.id });
+
+  if (state.frame !== null) params.set("frame", String(state.frame));
+  if (state.inFrame !== null) params.set("in", String(state.inFrame));
+  if (state.outFrame !== null) params.set("out", String(state.outFrame));
+  if (state.playbackRate !== 1) params.set("rate", String(state.playbackRate));
+  if (state.muted) params.set("muted", "1");
+
+  const props = JSON.stringify(state.inputProps);
+  if (props !== JSON.stringify({ ...state.composition.defaultProps })) {
+    params.set("props", props);
+  }
+
+  return `#${params.toString()}`;
+};
+
+/**
+ * Read the preview state from the current URL.
+ */
+export const readPreviewStateFromHash = (): PreviewState =>
+  parsePreviewState(window.location.hash);
+
+/**
+ * Write the preview state to the current URL without adding history entries.
+ */
+export const writePreviewStateToHash = (state: PreviewState) => {
+  const hash = serializePreviewState(state);
+  if (hash !== window.location.hash) {
+    window.history.replaceState(null, "", hash);
+  }
+};
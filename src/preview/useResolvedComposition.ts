@@ -0,0 +1,62 @@
+import { useEffect, useMemo, useState } from "react";
+import type { CompositionConfig } from "../remotion/compositions";
+
+type Metadata = Partial<
+  Pick<CompositionConfig, "durationInFrames" | "fps" | "width" | "height">
+>;
+
+/**
+ * The composition with its `calculateMetadata` applied to the current
+ * props, as the Remotion renderer would. The Player does not run
+ * `calculateMetadata` itself, so the preview resolves it here. Until it
+ * resolves, and for compositions without one, the registered values are
+ * used.
+ */
+export const useResolvedComposition = (
+  composition: CompositionConfig,
+  inputProps: Record<string, unknown>,
+): CompositionConfig => {
+  const [resolved, setResolved] = useState<{
+    composition: CompositionConfig;
+    metadata: Metadata;
+  } | null>(null);
+
+  useEffect(() => {
+    const { calculateMetadata } = composition;
+    if (!calculateMetadata) return;
+
+    const controller = new AbortController();
+    const defaultProps = composition.defaultProps ?? {};
+
+    Promise.resolve(
+      calculateMetadata({
+        defaultProps,
+        props: { ...defaultProps, ...inputProps },
+        abortSignal: controller.signal,
+        compositionId: composition.id,
+        isRendering: false,
+      }),
+    )
+      .then(({ durationInFrames, fps, width, height }) => {
+        if (controller.signal.aborted) return;
+        setResolved({ composition, metadata: { durationInFrames, fps, width, height } });
+      })
+      .catch((error: unknown) => {
+        if (!controller.signal.aborted) {
+          console.error(`calculateMetadata() of ${composition.id} failed`, error);
+        }
+      });
+
+    return () => controller.abort();
+  }, [composition, inputProps]);
+
+  return useMemo(() => {
+    if (!resolved || resolved.composition !== composition) return composition;
+
+    // Drop values calculateMetadata left out
+    const overrides = Object.fromEntries(
+      Object.entries(resolved.metadata).filter(([, value]) => value !== undefined),
+    );
+    return { ...composition, ...overrides };
+  }, [composition, resolved]);
+};
@@ -0,0 +1,205 @@
+import { useEffect, useRef } from "react";
+import type { PlayerRef } from "@remotion/player";
+
+export interface UseTransportKeysOptions {
+  /** Player driven by the keys */
+  playerRef: React.RefObject<PlayerRef | null>;
+  /** Length of the composition in frames */
+  durationInFrames: number;
+  /** Current playback rate of the Player */
+  playbackRate: number;
+  /** Change the playback rate of the Player */
+  setPlaybackRate: (rate: number) => void;
+  /** First frame of the loop range */
+  inFrame: number | null;
+  /** Last frame of the loop range */
+  outFrame: number | null;
+  /** Change the loop range */
+  setInOut: (inFrame: number | null, outFrame: number | null) => void;
+  /** Frames jumped to with the up/down arrows, e.g. scene starts and ends */
+  boundaries?: number[];
+}
+
+/** Shuttle speeds reached by pressing J or L repeatedly */
+const SHUTTLE_SPEEDS = [1, 2, 4];
+
+/** Frames skipped by shift + arrow */
+const LARGE_STEP = 10;
+
+const isEditableTarget = (target: EventTarget | null) =>
+  target instanceof HTMLElement &&
+  (target.isContentEditable ||
+    target.tagName === "INPUT" ||
+    target.tagName === "TEXTAREA" ||
+    target.tagName === "SELECT");
+
+/**
+ * Get the next shuttle speed in a direction (1 = forward, -1 = backward).
+ * Reversing or starting from pause begins at normal speed.
+ */
+const nextShuttleRate = (rate: number, isPlaying: boolean, direction: 1 | -1) => {
+  if (!isPlaying || Math.sign(rate) !== direction) return direction;
+  const index = SHUTTLE_SPEEDS.indexOf(Math.abs(rate));
+  const next = SHUTTLE_SPEEDS[Math.min(index + 1, SHUTTLE_SPEEDS.length - 1)];
+  return next * direction;
+};
+
+/**
+ * NLE-style keyboard transport for the preview Player.
+ *
+ * - J / K / L: shuttle backward / pause / forward. Repeated J or L ramps
+ *   the speed up to 4x. Holding K while pressing J or L steps one frame.
+ * - ← / →: step one frame, with shift: step 10 frames.
+ * - ↑ / ↓: jump to the previous / next boundary (scene start or end).
+ * - Home / End: jump to the first / last frame.
+ * - I / O: set the loop in / out point at the current frame.
+ *   Alt+I / Alt+O clear them, Alt+X clears both.
+ */
+export const useTransportKeys = ({
+  playerRef,
+  durationInFrames,
+  playbackRate,
+  setPlaybackRate,
+  inFrame,
+  outFrame,
+  setInOut,
+  boundaries = [],
+}: UseTransportKeysOptions) => {
+  // Keep the listener stable while reading the latest values
+  const optionsRef = useRef({
+    durationInFrames,
+    playbackRate,
+    setPlaybackRate,
+    inFrame,
+    outFrame,
+    setInOut,
+    boundaries,
+  });
+  optionsRef.current = {
+    durationInFrames,
+    playbackRate,
+    setPlaybackRate,
+    inFrame,
+    outFrame,
+    setInOut,
+    boundaries,
+  };
+  const isKHeldRef = useRef(false);
+
+  useEffect(() => {
+    const clampFrame = (frame: number) =>
+      Math.max(0, Math.min(optionsRef.current.durationInFrames - 1, frame));
+
+    const seek = (frame: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+      player.pause();
+      player.seekTo(clampFrame(frame));
+    };
+
+    const step = (delta: number) => {
+      const player = playerRef.current;
+      if (!player) return;
+      seek(player.getCurrentFrame() + delta);
+    };
+
+    const shuttle = (direction: 1 | -1) => {
+      const player = playerRef.current;
+      if (!player) return;
+      const { playbackRate: rate, setPlaybackRate: setRate } = optionsRef.current;
+      setRate(nextShuttleRate(rate, player.isPlaying(), direction));
+      player.play();
+    };
+
+    const jumpToBoundary = (direction: 1 | -1) => {
+      const player = playerRef.current;
+      if (!player) return;
+      const frame = player.getCurrentFrame();
+      const candidates = [
+        0,
+        optionsRef.current.durationInFrames - 1,
+        ...optionsRef.current.boundaries,
+      ]
+        .map(clampFrame)
+        .filter((f) => (direction === 1 ? f > frame : f < frame))
+        .sort((a, b) => (a - b) * direction);
+      if (candidates.length > 0) seek(candidates[0]);
+    };
+
+    const setIn = (frame: number | null) => {
+      const { outFrame: out, setInOut: set } = optionsRef.current;
+      set(frame, frame !== null && out !== null && out <= frame ? null : out);
+    };
+
+    const setOut = (frame: number | null) => {
+      const { inFrame: inPoint, setInOut: set } = optionsRef.current;
+      set(frame !== null && inPoint !== null && inPoint >= frame ? null : inPoint, frame);
+    };
+
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (isEditableTarget(e.target) || e.metaKey || e.ctrlKey) return;
+      const player = playerRef.current;
+      if (!player) return;
+
+      let handled = true;
+      switch (e.code) {
+        case "KeyJ":
+          if (isKHeldRef.current) step(-1);
+          else shuttle(-1);
+          break;
+        case "KeyK":
+          isKHeldRef.current = true;
+          player.pause();
+          optionsRef.current.setPlaybackRate(1);
+          break;
+        case "KeyL":
+          if (isKHeldRef.current) step(1);
+          else shuttle(1);
+          break;
+        case "ArrowLeft":
+          step(e.shiftKey ? -LARGE_STEP : -1);
+          break;
+        case "ArrowRight":
+          step(e.shiftKey ? LARGE_STEP : 1);
+          break;
+        case "ArrowUp":
+          jumpToBoundary(-1);
+          break;
+        case "ArrowDown":
+          jumpToBoundary(1);
+          break;
+        case "Home":
+          seek(0);
+          break;
+        case "End":
+          seek(optionsRef.current.durationInFrames - 1);
+          break;
+        case "KeyI":
+          setIn(e.altKey ? null : player.getCurrentFrame());
+          break;
+        case "KeyO":
+          setOut(e.altKey ? null : player.getCurrentFrame());
+          break;
+        case "KeyX":
+          if (e.altKey) optionsRef.current.setInOut(null, null);
+          else handled = false;
+          break;
+        default:
+          handled = false;
+      }
+
+      if (handled) e.preventDefault();
+    };
+
+    const onKeyUp = (e: KeyboardEvent) => {
+      if (e.code === "KeyK") isKHeldRef.current = false;
+    };
+
+    window.addEventListener("keydown", onKeyDown);
+    window.addEventListener("keyup", onKeyUp);
+    return () => {
+      window.removeEventListener("keydown", onKeyDown);
+      window.removeEventListener("keyup", onKeyUp);
+    };
+  }, [playerRef]);
+};
@@ -1,11 +1,196 @@
+import type React from "react";
+import type { CalculateMetadataFunction } from "remotion";
+import type { PropSchema } from "./schema";
 import { Main } from "./compositions/Main";
+import { Showcase, type ShowcaseProps } from "./compositions/Showcase";
+import launchDocument from "./compositions/documents/launch.json";
+import {
+  SceneDocument,
+  assertSceneDocument,
+  defaultComponentRegistry,
+  getSceneDocumentDuration,
+  type SceneDocumentProps,
+} from "./library";
 
-// Single composition configuration
-export const composition = {
-  id: "Main",
-  component: Main,
-  durationInFrames: 350,
-  fps: 30,
-  width: 1920,
-  height: 1080,
-};
+/**
+ * A composition registered in both the Remotion root and the preview app.
+ */
+export interface CompositionConfig<
+  Props extends Record<string, unknown> = Record<string, unknown>,
+> {
+  /** Unique id, used as the Remotion composition id and in the URL hash */
+  id: string;
+  /** Component rendering the video */
+  component: React.ComponentType<Props>;
+  /** Length of the video in frames */
+  durationInFrames: number;
+  /** Frames per second */
+  fps: number;
+  /** Width in pixels */
+  width: number;
+  /** Height in pixels */
+  height: number;
+  /** Props passed to the component unless overridden */
+  defaultProps?: Props;
+  /** Optional description of the editable props */
+  schema?: PropSchema<Props>;
+  /** Id of the composition this entry is a size variant of */
+  variantOf?: string;
+  /**
+   * Derives the duration, size or props from the props before rendering,
+   * e.g. `createGsapMetadata` to match a GSAP timeline. The static values
+   * above are used until it resolves.
+   */
+  calculateMetadata?: CalculateMetadataFunction<Props>;
+}
+
+/**
+ * A size at which a composition is registered.
+ */
+export interface CompositionVariant {
+  /**
+   * Appended to the composition id, e.g. "9x16" gives "Showcase-9x16".
+   * The first variant keeps the plain id
+   */
+  name: string;
+  width: number;
+  height: number;
+}
+
+/**
+ * The sizes every social video is delivered at.
+ */
+export const ASPECT_VARIANTS: CompositionVariant[] = [
+  { name: "16x9", width: 1920, height: 1080 },
+  { name: "9x16", width: 1080, height: 1920 },
+  { name: "1x1", width: 1080, height: 1080 },
+];
+
+/**
+ * Define a registry entry with its props type checked against the component.
+ */
+export function defineComposition<Props extends Record<string, unknown>>(
+  config: CompositionConfig<Props>,
+): CompositionConfig {
+  // Props is erased here so entries can share one array. A single cast is
+  // not enough: `component` and `calculateMetadata` take Props as input and
+  // `defaultProps` holds it, so neither type is assignable to the other.
+  return config as unknown as CompositionConfig;
+}
+
+/**
+ * Register the same component at several sizes. Components adapt to each
+ * size through `useLayout`. The first variant is the default and keeps
+ * the base id, so links and render ids from before the split still work.
+ */
+export function defineVariants<Props extends Record<string, unknown>>(
+  config: Omit<CompositionConfig<Props>, "width" | "height" | "variantOf">,
+  variants: CompositionVariant[] = ASPECT_VARIANTS,
+): CompositionConfig[] {
+  return variants.map((variant, i) =>
+    defineComposition<Props>({
+      ...config,
+      id: i === 0 ? config.id : `${config.id}-${variant.name}`,
+      width: variant.width,
+      height: variant.height,
+      variantOf: config.id,
+    }),
+  );
+}
+
+// Frame rate of the Document composition, which its length is computed at
+const DOCUMENT_FPS = 30;
+
+// JSON imports are not typed as documents: check the example when it loads
+const launch: unknown = launchDocument;
+assertSceneDocument(launch, defaultComponentRegistry);
+
+/**
+ * All compositions, in the order they appear in the composition picker.
+ */
+export const compositions: CompositionConfig[] = [
+  defineComposition({
+    id: "Main",
+    component: Main,
+    durationInFrames: 350,
+    fps: 30,
+    width: 1920,
+    height: 1080,
+  }),
+  ...defineVariants<ShowcaseProps>({
+    id: "Showcase",
+    component: Showcase,
+    durationInFrames: 180,
+    fps: 30,
+    defaultProps: {
+      title: "TypeFrames",
+      subtitle: "Motion design primitives for Remotion",
+      titleStyle: "cinematic",
+      name: "Jane Doe",
+      role: "Motion Designer",
+      accentColor: "#38bdf8",
+      highlights: [
+        { label: "Keyframes", color: "#38bdf8" },
+        { label: "Springs", color: "#a78bfa" },
+        { label: "Transitions", color: "#34d399" },
+      ],
+    },
+    schema: {
+      title: { type: "text" },
+      subtitle: { type: "text" },
+      titleStyle: {
+        type: "enum",
+        label: "Title style",
+        options: ["minimal", "bold", "cinematic", "editorial", "stacked", "reveal"],
+      },
+      name: { type: "text", label: "Lower third name" },
+      role: { type: "text", label: "Lower third role" },
+      accentColor: { type: "color", label: "Accent color" },
+      highlights: {
+        type: "array",
+        maxItems: 5,
+        item: {
+          type: "object",
+          fields: {
+            label: { type: "text" },
+            color: { type: "color" },
+          },
+        },
+      },
+    },
+  }),
+  defineComposition<SceneDocumentProps>({
+    id: "Document",
+    component: SceneDocument,
+    durationInFrames: getSceneDocumentDuration(launch, DOCUMENT_FPS),
+    fps: DOCUMENT_FPS,
+    width: 1920,
+    height: 1080,
+    defaultProps: { document: launch },
+    // Follow the document when scenes are edited
+    calculateMetadata: ({ props }) => ({
+      durationInFrames: getSceneDocumentDuration(props.document, DOCUMENT_FPS),
+    }),
+  }),
+];
+
+/**
+ * The composition shown when no id is requested.
+ */
+export const defaultComposition = compositions[0];
+
+/**
+ * Look up a registered composition by id.
+ */
+export function getComposition(id: string | null | undefined): CompositionConfig | undefined {
+  if (!id) return undefined;
+  return compositions.find((c) => c.id === id);
+}
+
+/**
+ * Get all size variants of a composition, including itself.
+ */
+export function getVariants(composition: CompositionConfig): CompositionConfig[] {
+  if (!composition.variantOf) return [composition];
+  return compositions.filter((c) => c.variantOf === composition.variantOf);
+}
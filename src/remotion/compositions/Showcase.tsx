@@ -0,0 +1,105 @@
+import { useMemo } from "react";
+import { AbsoluteFill, Sequence, useVideoConfig } from "remotion";
+import { loadFont } from "@remotion/google-fonts/SpaceMono";
+import {
+  TitleCard,
+  LowerThird,
+  Badge,
+  useSequence,
+  useLayout,
+  type SequenceScene,
+  type TitleCardStyle,
+} from "../library";
+
+export type ShowcaseHighlight = {
+  label: string;
+  color: string;
+};
+
+export type ShowcaseProps = {
+  title: string;
+  subtitle: string;
+  titleStyle: TitleCardStyle;
+  name: string;
+  role: string;
+  accentColor: string;
+  highlights: ShowcaseHighlight[];
+};
+
+const scenes: SequenceScene[] = [
+  { id: "title", at: 0, duration: 2 },
+  { id: "lowerThird", at: 2, duration: 4 },
+];
+
+// Seconds before the first highlight badge pops in, and between badges
+const HIGHLIGHTS_AT = 0.8;
+const HIGHLIGHTS_STAGGER = 0.15;
+
+export const Showcase: React.FC<ShowcaseProps> = ({
+  title,
+  subtitle,
+  titleStyle,
+  name,
+  role,
+  accentColor,
+  highlights,
+}) => {
+  const { fontFamily } = loadFont();
+  const { fps } = useVideoConfig();
+  const { scale } = useLayout();
+
+  const beats = useMemo(
+    () =>
+      highlights.map((highlight, i) => ({
+        id: `highlight:${highlight.label}`,
+        at: HIGHLIGHTS_AT + i * HIGHLIGHTS_STAGGER,
+      })),
+    [highlights],
+  );
+  useSequence(scenes, beats);
+
+  return (
+    <AbsoluteFill className="bg-[#0f1115]">
+      <div className="absolute inset-0 bg-[radial-gradient(circle_at_30%_20%,rgba(99,102,241,0.28),transparent_45%),radial-gradient(circle_at_70%_60%,rgba(16,185,129,0.2),transparent_50%)]" />
+      <AbsoluteFill className="flex flex-col items-center justify-center gap-12">
+        <TitleCard
+          title={title}
+          subtitle={subtitle}
+          titleStyle={titleStyle}
+          titleFontSize={120}
+          subtitleFontSize={40}
+          accentColor={accentColor}
+          fontFamily={fontFamily}
+        />
+        <div className="flex flex-wrap justify-center" style={{ gap: scale(16) }}>
+          {highlights.map((highlight, i) => (
+            <Badge
+              key={i}
+              color={highlight.color}
+              badgeStyle="glass"
+              animation="bounce"
+              fontSize={scale(28)}
+              paddingX={scale(28)}
+              paddingY={scale(10)}
+              delay={HIGHLIGHTS_AT + i * HIGHLIGHTS_STAGGER}
+            >
+              {highlight.label}
+            </Badge>
+          ))}
+        </div>
+      </AbsoluteFill>
+      <Sequence from={Math.round(scenes[1].at * fps)}>
+        <LowerThird
+          title={name}
+          subtitle={role}
+          lowerThirdStyle="accent"
+          color={accentColor}
+          left={120}
+          titleSize={48}
+          subtitleSize={28}
+          fontFamily={fontFamily}
+        />
+      </Sequence>
+    </AbsoluteFill>
+  );
+};
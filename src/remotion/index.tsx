@@ -1,17 +1,24 @@
 import "../styles/global.css";
 import { registerRoot, Composition } from "remotion";
-import { composition } from "./compositions";
+import { compositions } from "./compositions";
 
 const RemotionRoot = () => {
   return (
-    <Composition
-      id={composition.id}
-      component={composition.component}
-      durationInFrames={composition.durationInFrames}
-      fps={composition.fps}
-      width={composition.width}
-      height={composition.height}
-    />
+    <>
+      {compositions.map((composition) => (
+        <Composition
+          key={composition.id}
+          id={composition.id}
+          component={composition.component}
+          durationInFrames={composition.durationInFrames}
+          fps={composition.fps}
+          width={composition.width}
+          height={composition.height}
+          defaultProps={composition.defaultProps}
+          calculateMetadata={composition.calculateMetadata}
+        />
+      ))}
+    </>
   );
 };
 
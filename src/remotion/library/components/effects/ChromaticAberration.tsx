@@ -1,5 +1,6 @@
 import React, { useId, useMemo } from "react";
 import { useCurrentFrame, useVideoConfig } from "remotion";
+import { withRenderProfiler } from "../../profiling";
 
 // ---------------------------------------------------------------------------
 // Types
@@ -111,7 +112,7 @@ function getDirectionOffsets(
  *   <div>Content</div>
  * </ChromaticAberration>
  */
-export const ChromaticAberration: React.FC<ChromaticAberrationProps> = ({
+export const ChromaticAberration: React.FC<ChromaticAberrationProps> = withRenderProfiler<ChromaticAberrationProps>("ChromaticAberration", ({
   children,
   intensity = 4,
   direction = "horizontal",
@@ -267,6 +268,6 @@ export const ChromaticAberration: React.FC<ChromaticAberrationProps> = ({
       </div>
     </div>
   );
-};
+});
 
 export default ChromaticAberration;
@@ -1,5 +1,6 @@
 import React, { useMemo } from "react";
 import { useCurrentFrame, useVideoConfig, random } from "remotion";
+import { withRenderProfiler } from "../../profiling";
 
 export type ParticleType = "confetti" | "sparks" | "dust" | "snow" | "bubbles" | "stars";
 
@@ -76,7 +77,7 @@ const GRAVITY: Record<ParticleType, number> = {
  * <Particles type="confetti" count={80} speed={1.5} />
  * <Particles type="snow" count={100} wind={20} />
  */
-export const Particles: React.FC<ParticlesProps> = ({
+export const Particles: React.FC<ParticlesProps> = withRenderProfiler<ParticlesProps>("Particles", ({
   count = 50,
   type = "confetti",
   speed = 1,
@@ -167,7 +168,7 @@ export const Particles: React.FC<ParticlesProps> = ({
       })}
     </div>
   );
-};
+});
 
 function getParticleStyle(
   type: ParticleType,
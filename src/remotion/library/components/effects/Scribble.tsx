@@ -1,5 +1,6 @@
 import React, { useMemo } from "react";
-import { useCurrentFrame, useVideoConfig, interpolate, Easing, random } from "remotion";
+import { useCurrentFrame, useVideoConfig, interpolate, Easing } from "remotion";
+import { wobblePath, type StrokePoint } from "../paths/strokes";
 
 export type ScribbleShape = "circle" | "underline" | "arrow" | "cross" | "box" | "checkmark" | "highlight";
 
@@ -28,31 +29,7 @@ export interface ScribbleProps {
   style?: React.CSSProperties;
 }
 
-function wobblePath(
-  points: Array<[number, number]>,
-  wobbleAmount: number,
-  seed: string,
-): string {
-  if (points.length < 2) return "";
-  const wobbled = points.map(([x, y], i) => {
-    const wx = x + (random(`${seed}-wx-${i}`) - 0.5) * wobbleAmount;
-    const wy = y + (random(`${seed}-wy-${i}`) - 0.5) * wobbleAmount;
-    return [wx, wy] as [number, number];
-  });
-
-  let d = `M ${wobbled[0][0]} ${wobbled[0][1]}`;
-  for (let i = 1; i < wobbled.length; i++) {
-    const prev = wobbled[i - 1];
-    const curr = wobbled[i];
-    // Quadratic bezier for hand-drawn feel
-    const cpx = (prev[0] + curr[0]) / 2 + (random(`${seed}-cpx-${i}`) - 0.5) * wobbleAmount * 1.5;
-    const cpy = (prev[1] + curr[1]) / 2 + (random(`${seed}-cpy-${i}`) - 0.5) * wobbleAmount * 1.5;
-    d += ` Q ${cpx} ${cpy} ${curr[0]} ${curr[1]}`;
-  }
-  return d;
-}
-
-function getShapePoints(shape: ScribbleShape, w: number, h: number): Array<[number, number]> {
+function getShapePoints(shape: ScribbleShape, w: number, h: number): StrokePoint[] {
   const cx = w / 2;
   const cy = h / 2;
   const rx = w * 0.42;
@@ -60,7 +37,7 @@ function getShapePoints(shape: ScribbleShape, w: number, h: number): Array<[numb
 
   switch (shape) {
     case "circle": {
-      const pts: Array<[number, number]> = [];
+      const pts: StrokePoint[] = [];
       const steps = 24;
       for (let i = 0; i <= steps + 2; i++) {
         const angle = (i / steps) * Math.PI * 2 - Math.PI / 2;
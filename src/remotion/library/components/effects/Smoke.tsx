@@ -1,5 +1,6 @@
 import React, { useMemo, useId } from "react";
 import { useCurrentFrame, useVideoConfig, random } from "remotion";
+import { withRenderProfiler } from "../../profiling";
 
 export type SmokeStyle = "fog" | "haze" | "wisps" | "thick";
 
@@ -38,7 +39,7 @@ const STYLE_CONFIG: Record<SmokeStyle, { blur: number; scale: number; count: num
  * @example
  * <Smoke smokeStyle="fog" color="#ffffff" intensity={0.3} speed={0.5} />
  */
-export const Smoke: React.FC<SmokeProps> = ({
+export const Smoke: React.FC<SmokeProps> = withRenderProfiler<SmokeProps>("Smoke", ({
   smokeStyle = "fog",
   color = "#ffffff",
   intensity = 0.3,
@@ -117,6 +118,6 @@ export const Smoke: React.FC<SmokeProps> = ({
       </svg>
     </div>
   );
-};
+});
 
 export default Smoke;
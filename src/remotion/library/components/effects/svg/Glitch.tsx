@@ -5,6 +5,7 @@ import React, {
   type ReactNode,
 } from "react";
 import { useCurrentFrame, useVideoConfig, random } from "remotion";
+import { withRenderProfiler } from "../../../profiling";
 
 /**
  * Glitch effect types.
@@ -69,7 +70,7 @@ export interface GlitchProps {
  *   <Text>GLITCH</Text>
  * </Glitch>
  */
-export const Glitch: React.FC<GlitchProps> = ({
+export const Glitch: React.FC<GlitchProps> = withRenderProfiler<GlitchProps>("Glitch", ({
   children,
   type = "rgbSplit",
   intensity = 0.5,
@@ -347,6 +348,6 @@ export const Glitch: React.FC<GlitchProps> = ({
       {blockSlices}
     </div>
   );
-};
+});
 
 export default Glitch;
@@ -3,10 +3,10 @@ import { noise2D } from "@remotion/noise";
 import {
   useCurrentFrame,
   useVideoConfig,
-  interpolate,
   Easing,
   AbsoluteFill,
 } from "remotion";
+import { compileKeyframes, type CompiledKeyframes } from "../../hooks/useKeyframes";
 
 /**
  * A keyframe for camera animation.
@@ -164,92 +164,35 @@ function constrainCamera(
   };
 }
 
+type CameraProperty = "x" | "y" | "scale" | "rotation" | "rotateX" | "rotateY";
+
 /**
- * Interpolate between keyframes.
+ * Compile the keyframes of one camera property. Positions are resolved to
+ * pixels against `dimension`, and keyframes without the property use
+ * `defaultValue`, the static value of the property.
  */
-function interpolateKeyframes(
-  frame: number,
+function compileCameraTrack(
   keyframes: CameraKeyframe[],
-  property: "x" | "y" | "scale" | "rotation" | "rotateX" | "rotateY",
+  property: CameraProperty,
   defaultValue: number,
   defaultEasing: (t: number) => number,
   dimension: number,
-): number {
-  if (keyframes.length === 0) return defaultValue;
-  if (keyframes.length === 1) {
-    const kf = keyframes[0];
-    const value = kf[property];
-    if (value === undefined) return defaultValue;
-    if (property === "x" || property === "y") {
-      return parsePosition(value as number | string, dimension);
-    }
-    return value as number;
-  }
-
-  // Sort keyframes by frame
-  const sorted = [...keyframes].sort((a, b) => a.frame - b.frame);
-
-  // Find surrounding keyframes
-  let prevKf = sorted[0];
-  let nextKf = sorted[sorted.length - 1];
-
-  for (let i = 0; i < sorted.length - 1; i++) {
-    if (frame >= sorted[i].frame && frame <= sorted[i + 1].frame) {
-      prevKf = sorted[i];
-      nextKf = sorted[i + 1];
-      break;
-    }
-  }
-
-  // If before first keyframe
-  if (frame <= sorted[0].frame) {
-    const value = sorted[0][property];
-    if (value === undefined) return defaultValue;
-    if (property === "x" || property === "y") {
-      return parsePosition(value as number | string, dimension);
-    }
-    return value as number;
-  }
-
-  // If after last keyframe
-  if (frame >= sorted[sorted.length - 1].frame) {
-    const value = sorted[sorted.length - 1][property];
-    if (value === undefined) return defaultValue;
-    if (property === "x" || property === "y") {
-      return parsePosition(value as number | string, dimension);
-    }
-    return value as number;
-  }
-
-  // Get values
-  const prevValue = prevKf[property];
-  const nextValue = nextKf[property];
-
-  const prevParsed =
-    prevValue !== undefined
-      ? property === "x" || property === "y"
-        ? parsePosition(prevValue as number | string, dimension)
-        : (prevValue as number)
-      : defaultValue;
-
-  const nextParsed =
-    nextValue !== undefined
-      ? property === "x" || property === "y"
-        ? parsePosition(nextValue as number | string, dimension)
-        : (nextValue as number)
-      : defaultValue;
-
-  // Interpolate
-  const easing = nextKf.easing || defaultEasing;
-  return interpolate(
-    frame,
-    [prevKf.frame, nextKf.frame],
-    [prevParsed, nextParsed],
-    {
-      extrapolateLeft: "clamp",
-      extrapolateRight: "clamp",
-      easing,
-    },
+): CompiledKeyframes {
+  return compileKeyframes(
+    keyframes.map((kf) => {
+      const value = kf[property];
+      return {
+        frame: kf.frame,
+        value:
+          value === undefined
+            ? defaultValue
+            : property === "x" || property === "y"
+              ? parsePosition(value, dimension)
+              : (value as number),
+        easing: kf.easing,
+      };
+    }),
+    { defaultEasing, label: `Camera ${property}` },
   );
 }
 
@@ -318,82 +261,44 @@ export const Camera: React.FC<CameraProps> = ({
   const frame = useCurrentFrame();
   const { width, height, fps } = useVideoConfig();
 
-  // Calculate current values from keyframes
-  const keyframeValues = useMemo(() => {
-    if (keyframes.length === 0) {
-      return {
-        x: parsePosition(staticX, width),
-        y: parsePosition(staticY, height),
-        scale: staticScale ?? 1,
-        rotation: staticRotation ?? 0,
-        rotateX: staticRotateX ?? 0,
-        rotateY: staticRotateY ?? 0,
-      };
-    }
+  // Static values, also used at keyframes that leave a property out
+  const defaults = useMemo(
+    () => ({
+      x: parsePosition(staticX, width),
+      y: parsePosition(staticY, height),
+      scale: staticScale ?? 1,
+      rotation: staticRotation ?? 0,
+      rotateX: staticRotateX ?? 0,
+      rotateY: staticRotateY ?? 0,
+    }),
+    [staticX, staticY, staticScale, staticRotation, staticRotateX, staticRotateY, width, height],
+  );
 
-    return {
-      x: interpolateKeyframes(
-        frame,
-        keyframes,
-        "x",
-        parsePosition(staticX, width),
-        defaultEasing,
-        width,
-      ),
-      y: interpolateKeyframes(
-        frame,
-        keyframes,
-        "y",
-        parsePosition(staticY, height),
-        defaultEasing,
-        height,
-      ),
-      scale: interpolateKeyframes(
-        frame,
-        keyframes,
-        "scale",
-        staticScale ?? 1,
-        defaultEasing,
-        1,
-      ),
-      rotation: interpolateKeyframes(
-        frame,
-        keyframes,
-        "rotation",
-        staticRotation ?? 0,
-        defaultEasing,
-        1,
-      ),
-      rotateX: interpolateKeyframes(
-        frame,
-        keyframes,
-        "rotateX",
-        staticRotateX ?? 0,
-        defaultEasing,
-        1,
-      ),
-      rotateY: interpolateKeyframes(
-        frame,
-        keyframes,
-        "rotateY",
-        staticRotateY ?? 0,
-        defaultEasing,
-        1,
-      ),
-    };
-  }, [
-    frame,
-    keyframes,
-    staticX,
-    staticY,
-    staticScale,
-    staticRotation,
-    staticRotateX,
-    staticRotateY,
-    defaultEasing,
-    width,
-    height,
-  ]);
+  // Compile the keyframes once per change instead of once per frame
+  const tracks = useMemo(
+    () => ({
+      x: compileCameraTrack(keyframes, "x", defaults.x, defaultEasing, width),
+      y: compileCameraTrack(keyframes, "y", defaults.y, defaultEasing, height),
+      scale: compileCameraTrack(keyframes, "scale", defaults.scale, defaultEasing, 1),
+      rotation: compileCameraTrack(keyframes, "rotation", defaults.rotation, defaultEasing, 1),
+      rotateX: compileCameraTrack(keyframes, "rotateX", defaults.rotateX, defaultEasing, 1),
+      rotateY: compileCameraTrack(keyframes, "rotateY", defaults.rotateY, defaultEasing, 1),
+    }),
+    [keyframes, defaults, defaultEasing, width, height],
+  );
+
+  // Calculate current values from keyframes
+  const keyframeValues = useMemo(
+    () => ({
+      x: tracks.x.evaluate(frame, defaults.x),
+      y: tracks.y.evaluate(frame, defaults.y),
+      scale: tracks.scale.evaluate(frame, defaults.scale),
+      rotation: tracks.rotation.evaluate(frame, defaults.rotation),
+      rotateX: tracks.rotateX.evaluate(frame, defaults.rotateX),
+      rotateY: tracks.rotateY.evaluate(frame, defaults.rotateY),
+    }),
+    [tracks, frame, defaults],
+  );
 
   // Calculate handheld wiggle using Simplex noise
   const wiggleValues = useMemo(() => {
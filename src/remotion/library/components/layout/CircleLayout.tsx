@@ -2,6 +2,11 @@ import React, { useMemo, type CSSProperties, type ReactNode } from "react";
 import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
 import { type EasingName } from "../../presets/easings";
 import { toRemotionEasing } from "../../presets/remotionEasings";
+import {
+  getCirclePoints,
+  useStagger,
+  type StaggerDistribution,
+} from "../../hooks/useStagger";
 
 /**
  * Item rotation mode for circle layout.
@@ -23,6 +28,11 @@ export interface CircleLayoutProps {
   rotation?: number;
   /** Stagger delay between items in seconds */
   stagger?: number;
+  /**
+   * Stagger by position on the circle instead of index, e.g. a sweep from
+   * the left. Positions are on a circle of radius 1 around the center.
+   */
+  staggerDistribution?: StaggerDistribution;
   /** Animation duration per item in seconds */
   duration?: number;
   /** Initial delay in seconds */
@@ -67,6 +77,16 @@ export interface CircleLayoutProps {
  * </CircleLayout>
  *
  * @example
+ * // Items appear from left to right
+ * <CircleLayout
+ *   radius={200}
+ *   stagger={0.08}
+ *   staggerDistribution={{ type: "direction", angle: 0 }}
+ * >
+ *   {items}
+ * </CircleLayout>
+ *
+ * @example
  * // Rotating circle
  * <CircleLayout
  *   radius={180}
@@ -93,6 +113,7 @@ export const CircleLayout: React.FC<CircleLayoutProps> = ({
   endAngle = 360,
   rotation = 0,
   stagger = 0,
+  staggerDistribution,
   duration = 0.4,
   delay = 0,
   animateRotation = false,
@@ -123,6 +144,29 @@ export const CircleLayout: React.FC<CircleLayoutProps> = ({
     ? totalAngle / items.length
     : totalAngle / Math.max(items.length - 1, 1);
 
+  // Positions ignore the layout rotation, so delays don't change as it
+  // spins. Rebuilt only when the keys or the arc change, so the stagger
+  // isn't recomputed per frame
+  const itemIds = JSON.stringify(
+    items.map((item, index) =>
+      React.isValidElement(item) && item.key !== null ? item.key : index,
+    ),
+  );
+  const positions = useMemo(() => {
+    const ids = JSON.parse(itemIds) as (string | number)[];
+    return getCirclePoints(ids.length, startAngle, endAngle).map((point, index) => ({
+      ...point,
+      id: ids[index],
+    }));
+  }, [itemIds, startAngle, endAngle]);
+
+  const { getDelay } = useStagger({
+    each: stagger,
+    ease: "none",
+    distribution: staggerDistribution,
+    positions,
+  });
+
   return (
     <div
       className={className}
@@ -135,7 +179,8 @@ export const CircleLayout: React.FC<CircleLayoutProps> = ({
     >
       {items.map((child, index) => {
         // Calculate item delay
-        const itemDelay = delay + stagger * index;
+        const itemDelay =
+          delay + (staggerDistribution ? getDelay(index, items.length) : stagger * index);
         const itemDelayFrames = Math.round(itemDelay * fps);
         const durationFrames = Math.round(duration * fps);
 
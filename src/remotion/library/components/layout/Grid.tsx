@@ -1,7 +1,12 @@
-import React, { type CSSProperties, type ReactNode } from "react";
+import React, { useMemo, type CSSProperties, type ReactNode } from "react";
 import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
 import { type EasingName } from "../../presets/easings";
-import { useStagger, type StaggerPattern } from "../../hooks/useStagger";
+import {
+  getGridPoints,
+  useStagger,
+  type StaggerDistribution,
+  type StaggerPattern,
+} from "../../hooks/useStagger";
 import { toRemotionEasing } from "../../presets/remotionEasings";
 
 /**
@@ -23,6 +28,8 @@ export interface GridProps {
   stagger?: number;
   /** Stagger pattern */
   staggerPattern?: StaggerPattern;
+  /** Stagger by cell position instead, e.g. a ripple from a cell (overrides staggerPattern) */
+  staggerDistribution?: StaggerDistribution;
   /** Animation duration per item in seconds */
   duration?: number;
   /** Initial delay before animations start in seconds */
@@ -37,6 +44,9 @@ export interface GridProps {
   className?: string;
 }
 
+const getItemId = (item: ReactNode, index: number) =>
+  React.isValidElement(item) && item.key !== null ? item.key : index;
+
 /**
  * Animated grid layout with staggered item entrance.
  *
@@ -63,6 +73,16 @@ export interface GridProps {
  * <Grid columns={3} stagger={0.08} staggerPattern="center">
  *   {items}
  * </Grid>
+ *
+ * @example
+ * // Ripple from the top-right cell
+ * <Grid
+ *   columns={4}
+ *   stagger={0.05}
+ *   staggerDistribution={{ type: "distance", origin: { x: 3, y: 0 } }}
+ * >
+ *   {items}
+ * </Grid>
  */
 export const Grid: React.FC<GridProps> = ({
   children,
@@ -73,6 +93,7 @@ export const Grid: React.FC<GridProps> = ({
   rowGap,
   stagger = 0,
   staggerPattern = "start",
+  staggerDistribution,
   duration = 0.4,
   delay = 0,
   animation = "fadeIn",
@@ -87,12 +108,28 @@ export const Grid: React.FC<GridProps> = ({
   const easing = toRemotionEasing(ease);
   const calculatedRows = rows ?? Math.ceil(items.length / columns);
 
+  // Cells one unit apart, keyed by child key so random delays follow items.
+  // Rebuilt only when the keys change, so the stagger isn't recomputed per frame
+  const itemIds = JSON.stringify(items.map(getItemId));
+  const positions = useMemo(() => {
+    const ids = JSON.parse(itemIds) as (string | number)[];
+    return getGridPoints(ids.length, columns).map((point, index) => ({
+      ...point,
+      id: ids[index],
+    }));
+  }, [itemIds, columns]);
+
+  const grid = useMemo((): [number, number] => [columns, calculatedRows], [columns, calculatedRows]);
+
   // Use stagger hook
   const { getDelay } = useStagger({
     amount: stagger * items.length,
     pattern: staggerPattern,
-    grid: [columns, calculatedRows],
+    grid,
     axis: "both",
+    ease: "none",
+    distribution: staggerDistribution,
+    positions,
   });
 
   // Grid container style
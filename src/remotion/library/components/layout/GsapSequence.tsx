@@ -0,0 +1,105 @@
+import React, { createContext, useContext, useMemo, type ReactNode } from "react";
+import { Sequence, useVideoConfig } from "remotion";
+import {
+  getLabelFrames,
+  getTimelineLabels,
+  timelineToBeats,
+  timelineToScenes,
+  type TimelineLabels,
+} from "../../hooks/gsapLabels";
+import { useSequence } from "../../hooks/useSequence";
+
+const GsapLabelsContext = createContext<TimelineLabels | null>(null);
+
+/**
+ * Props for GsapLabels component.
+ */
+export interface GsapLabelsProps {
+  children: ReactNode;
+  /** Timeline whose labels `GsapSequence`s below refer to, or its labels */
+  timeline: gsap.core.Timeline | TimelineLabels;
+}
+
+/**
+ * Share a GSAP timeline's labels with the `GsapSequence`s below it, and
+ * publish them as scenes and beats to a surrounding preview timeline.
+ *
+ * @example
+ * const labels = useMemo(() => getTimelineLabels(buildTimeline().pause()), []);
+ *
+ * <GsapLabels timeline={labels}>
+ *   <GsapSequence label="intro"><Intro /></GsapSequence>
+ *   <GsapSequence label="outro"><Outro /></GsapSequence>
+ * </GsapLabels>
+ */
+export const GsapLabels: React.FC<GsapLabelsProps> = ({ children, timeline }) => {
+  const labels = useMemo(() => getTimelineLabels(timeline), [timeline]);
+  const scenes = useMemo(() => timelineToScenes(labels), [labels]);
+  const beats = useMemo(() => timelineToBeats(labels), [labels]);
+
+  useSequence(scenes, beats);
+
+  return (
+    <GsapLabelsContext.Provider value={labels}>{children}</GsapLabelsContext.Provider>
+  );
+};
+
+/**
+ * Props for GsapSequence component.
+ */
+export interface GsapSequenceProps {
+  children: ReactNode;
+  /** Label the children mount at */
+  label: string;
+  /** Label the children unmount at (default: the next label, or the timeline end) */
+  until?: string;
+  /** Timeline to read labels from (default: the surrounding `GsapLabels`) */
+  timeline?: gsap.core.Timeline | TimelineLabels;
+  /** Position children absolutely, like `Sequence` (default: true) */
+  absoluteFill?: boolean;
+}
+
+/**
+ * Mount children only between two GSAP timeline labels, on the frames the
+ * labels fall on. Inside, frames count from the label, like a `Sequence`.
+ *
+ * @example
+ * <GsapLabels timeline={labels}>
+ *   <GsapSequence label="headline">
+ *     <Headline />
+ *   </GsapSequence>
+ *   <GsapSequence label="cta" until="end">
+ *     <CallToAction />
+ *   </GsapSequence>
+ * </GsapLabels>
+ */
+export const GsapSequence: React.FC<GsapSequenceProps> = ({
+  children,
+  label,
+  until,
+  timeline,
+  absoluteFill = true,
+}) => {
+  const { fps } = useVideoConfig();
+  const contextLabels = useContext(GsapLabelsContext);
+  const source = timeline ?? contextLabels;
+
+  if (!source) {
+    throw new Error("GsapSequence needs a `timeline` prop or a surrounding <GsapLabels>");
+  }
+
+  const { from, durationInFrames } = getLabelFrames(source, label, fps, until);
+
+  return (
+    <Sequence
+      from={from}
+      durationInFrames={durationInFrames}
+      name={label}
+      layout={absoluteFill ? "absolute-fill" : "none"}
+    >
+      {children}
+    </Sequence>
+  );
+};
+
+export default GsapSequence;
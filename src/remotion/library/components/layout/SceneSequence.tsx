@@ -0,0 +1,173 @@
+import React, { useMemo, type ReactNode } from "react";
+import { useVideoConfig, type CalculateMetadataFunction } from "remotion";
+import { useSequence, type SequenceScene } from "../../hooks/useSequence";
+import {
+  TransitionSeries,
+  createTiming,
+  getPresentation,
+  type TimingType,
+  type TransitionSpec,
+} from "./Transition";
+
+/**
+ * Transition from a scene into the next one: a transition type with its
+ * options, e.g. `{ type: "flash", color: "#f00", durationInFrames: 15 }`.
+ */
+export type SceneSequenceTransition = Extract<TransitionSpec, object> & {
+  /** Length in frames. Overlaps both scenes */
+  durationInFrames: number;
+  /** Timing curve (default: "linear") */
+  timing?: TimingType;
+};
+
+/**
+ * One scene of a SceneSequence.
+ */
+export interface SceneSequenceItem {
+  /** Identifier shown in the preview timeline (default: "scene-<n>") */
+  id?: string;
+  /** Component rendering the scene, given `props` and `children` */
+  component?: React.ComponentType<never>;
+  /** Props passed to `component` */
+  props?: Record<string, unknown>;
+  /** Content of the scene, or children of `component` */
+  children?: ReactNode;
+  /** Length in frames, including the transitions in and out */
+  durationInFrames: number;
+  /** Transition into the next scene */
+  transition?: SceneSequenceTransition;
+}
+
+/**
+ * Props for SceneSequence component.
+ */
+export interface SceneSequenceProps {
+  /** Scenes in playback order */
+  scenes: SceneSequenceItem[];
+}
+
+/**
+ * Total length of a scene sequence in frames, with transition overlaps
+ * subtracted. Throws if a transition cannot fit between its scenes, as
+ * `TransitionSeries` would at render time.
+ */
+export function getSceneSequenceDuration(scenes: SceneSequenceItem[]): number {
+  return scenes.reduce((total, scene, i) => {
+    const { transition } = scene;
+    if (!transition) return total + scene.durationInFrames;
+
+    const next = scenes[i + 1];
+    if (!next) {
+      throw new Error(`Scene ${i + 1} is the last one and cannot have a transition`);
+    }
+    if (transition.durationInFrames > Math.min(scene.durationInFrames, next.durationInFrames)) {
+      throw new Error(
+        `The ${transition.durationInFrames}-frame transition after scene ${i + 1} is longer than a scene it joins`,
+      );
+    }
+    return total + scene.durationInFrames - transition.durationInFrames;
+  }, 0);
+}
+
+/**
+ * Create a `calculateMetadata` function that sizes a composition to the
+ * scene sequence built from its props, so changing a scene or transition
+ * length never leaves the composition too short or too long.
+ *
+ * @example
+ * const getScenes = (props: PromoProps): SceneSequenceItem[] => [...];
+ *
+ * defineComposition<PromoProps>({
+ *   id: "Promo",
+ *   component: (props) => <SceneSequence scenes={getScenes(props)} />,
+ *   durationInFrames: 300,
+ *   fps: 30,
+ *   width: 1920,
+ *   height: 1080,
+ *   calculateMetadata: createSceneSequenceMetadata(getScenes),
+ * });
+ */
+export function createSceneSequenceMetadata<Props extends Record<string, unknown>>(
+  getScenes: (props: Props) => SceneSequenceItem[],
+): CalculateMetadataFunction<Props> {
+  return ({ props }) => ({ durationInFrames: getSceneSequenceDuration(getScenes(props)) });
+}
+
+/**
+ * Play scenes one after another, joined by transitions looked up by
+ * `TransitionType` name. A declarative `TransitionSeries`: no interleaved
+ * `Sequence` and `Transition` elements, no `getPresentation` and
+ * `createTiming` calls. Scenes are published to a surrounding preview
+ * timeline, like `useSequence`.
+ *
+ * Use `getSceneSequenceDuration` or `createSceneSequenceMetadata` for the
+ * composition length.
+ *
+ * @example
+ * <SceneSequence
+ *   scenes={[
+ *     {
+ *       component: TitleCard,
+ *       props: { title: "Hello" },
+ *       durationInFrames: 90,
+ *       transition: { type: "blurDissolve", timing: "smooth", durationInFrames: 15 },
+ *     },
+ *     { children: <Outro />, durationInFrames: 60 },
+ *   ]}
+ * />
+ */
+export const SceneSequence: React.FC<SceneSequenceProps> = ({ scenes }) => {
+  const { fps } = useVideoConfig();
+
+  // Placement of each scene on the output timeline, in seconds
+  const times = useMemo((): SequenceScene[] => {
+    let at = 0;
+    return scenes.map((scene, i) => {
+      const entry = {
+        id: scene.id ?? `scene-${i + 1}`,
+        at: at / fps,
+        duration: scene.durationInFrames / fps,
+      };
+      at += scene.durationInFrames - (scene.transition?.durationInFrames ?? 0);
+      return entry;
+    });
+  }, [scenes, fps]);
+
+  useSequence(times);
+
+  return (
+    <TransitionSeries>
+      {scenes.flatMap((scene, i) => {
+        const { props, children } = scene;
+        // Any component fits `component`; its props are the scene's to match
+        const Component = scene.component as
+          | React.ComponentType<Record<string, unknown>>
+          | undefined;
+        const entries = [
+          <TransitionSeries.Sequence
+            key={`scene-${i}`}
+            durationInFrames={scene.durationInFrames}
+            name={times[i].id}
+          >
+            {Component ? <Component {...props}>{children}</Component> : children}
+          </TransitionSeries.Sequence>,
+        ];
+        if (scene.transition) {
+          entries.push(
+            <TransitionSeries.Transition
+              key={`transition-${i}`}
+              presentation={getPresentation(scene.transition)}
+              timing={createTiming(
+                scene.transition.timing ?? "linear",
+                scene.transition.durationInFrames,
+              )}
+            />,
+          );
+        }
+        return entries;
+      })}
+    </TransitionSeries>
+  );
+};
+
+export default SceneSequence;
@@ -0,0 +1,205 @@
+import React, { useContext, useLayoutEffect, useRef, useState, type ReactNode } from "react";
+import { createPortal } from "react-dom";
+import { MagicMoveContext } from "./transitions/presentations/magicMove";
+
+/**
+ * Props for SharedElement component.
+ */
+export interface SharedElementProps {
+  children?: ReactNode;
+  /** Identifier matching the element in the other scene */
+  id: string;
+  className?: string;
+  style?: React.CSSProperties;
+}
+
+// Box of an element in px of the composition, with the look it animates
+interface SharedLayout {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  radius: number;
+  opacity: number;
+}
+
+interface SharedMove {
+  from: SharedLayout;
+  to: SharedLayout;
+  /** Unscaled size of this element, which its copy is drawn at */
+  width: number;
+  height: number;
+}
+
+const lerp = (from: number, to: number, t: number) => from + (to - from) * t;
+
+// Radius in px of a computed `border-top-left-radius` such as "12px" or "50%"
+function parseRadius(value: string, width: number, height: number): number {
+  const radius = parseFloat(value) || 0;
+  return value.trim().endsWith("%") ? (radius / 100) * Math.min(width, height) : radius;
+}
+
+function measure(box: HTMLElement, overlay: HTMLElement): SharedLayout {
+  const overlayRect = overlay.getBoundingClientRect();
+  // The Player scales the whole composition with a CSS transform
+  const scale = overlay.offsetWidth > 0 ? overlayRect.width / overlay.offsetWidth : 1;
+  const rect = box.getBoundingClientRect();
+  const style = getComputedStyle(box);
+  const width = rect.width / scale;
+  const height = rect.height / scale;
+
+  return {
+    x: (rect.left - overlayRect.left) / scale,
+    y: (rect.top - overlayRect.top) / scale,
+    width,
+    height,
+    radius: parseRadius(style.borderTopLeftRadius, width, height),
+    opacity: Number(style.opacity),
+  };
+}
+
+// The other side of the transition: the closest `data-magic-move-side`
+// element with the opposite direction. A scene entering and exiting at
+// once holds a side of the other transition, which is skipped
+function findCounterpartSide(root: HTMLElement): Element | null {
+  const other = root.dataset.magicMoveSide === "entering" ? "exiting" : "entering";
+  for (let node = root.parentElement; node; node = node.parentElement) {
+    const side = Array.from(node.querySelectorAll(`[data-magic-move-side="${other}"]`)).find(
+      (element) => !root.contains(element),
+    );
+    if (side) return side;
+  }
+  return null;
+}
+
+const sameLayout = (a: SharedLayout, b: SharedLayout) =>
+  a.x === b.x &&
+  a.y === b.y &&
+  a.width === b.width &&
+  a.height === b.height &&
+  a.radius === b.radius &&
+  a.opacity === b.opacity;
+
+const sameMove = (a: SharedMove | null, b: SharedMove | null) =>
+  a === b ||
+  (a !== null &&
+    b !== null &&
+    a.width === b.width &&
+    a.height === b.height &&
+    sameLayout(a.from, b.from) &&
+    sameLayout(a.to, b.to));
+
+/**
+ * Mark an element that travels between scenes in a `magicMove`
+ * transition. The element with the same id in the other scene is its
+ * counterpart: during the transition, a copy flies from the outgoing
+ * element's box to the incoming one's, over the cross-fading scenes.
+ * Outside of a magic move, or without a counterpart, it renders as a
+ * plain `div`.
+ *
+ * @example
+ * <TransitionSeries>
+ *   <TransitionSeries.Sequence durationInFrames={60}>
+ *     <SharedElement id="logo" style={{ width: 120, height: 120, borderRadius: 60 }}>
+ *       <Logo />
+ *     </SharedElement>
+ *   </TransitionSeries.Sequence>
+ *   <TransitionSeries.Transition presentation={magicMove()} timing={createTiming("smooth", 30)} />
+ *   <TransitionSeries.Sequence durationInFrames={60}>
+ *     <SharedElement id="logo" style={{ width: 480, height: 320, borderRadius: 24 }}>
+ *       <Logo />
+ *     </SharedElement>
+ *   </TransitionSeries.Sequence>
+ * </TransitionSeries>
+ */
+export const SharedElement: React.FC<SharedElementProps> = ({
+  children,
+  id,
+  className,
+  style,
+}) => {
+  const side = useContext(MagicMoveContext);
+  const boxRef = useRef<HTMLDivElement>(null);
+  const [move, setMove] = useState<SharedMove | null>(null);
+
+  // Measure both elements after every render, as scene content can move
+  // from frame to frame. Only changed measurements cause a re-render
+  useLayoutEffect(() => {
+    let next: SharedMove | null = null;
+    const box = boxRef.current;
+    const counterpart = side
+      ? findCounterpartSide(side.root)?.querySelector<HTMLElement>(
+          `[data-shared-element="${CSS.escape(id)}"]`,
+        )
+      : null;
+
+    if (side && box && counterpart) {
+      const own = measure(box, side.overlay);
+      const other = measure(counterpart, side.overlay);
+      next = {
+        from: side.direction === "exiting" ? own : other,
+        to: side.direction === "exiting" ? other : own,
+        width: box.offsetWidth,
+        height: box.offsetHeight,
+      };
+    }
+    setMove((previous) => (sameMove(previous, next) ? previous : next));
+  });
+
+  const isMoving = side !== null && move !== null;
+  const box = (
+    <div
+      ref={boxRef}
+      data-shared-element={id}
+      className={className}
+      style={isMoving ? { ...style, visibility: "hidden" } : style}
+    >
+      {children}
+    </div>
+  );
+
+  if (!isMoving) return box;
+
+  const { from, to, width, height } = move;
+  const t = side.progress;
+  const scaleX = width > 0 ? lerp(from.width, to.width, t) / width : 1;
+  const scaleY = height > 0 ? lerp(from.height, to.height, t) / height : 1;
+  const radius = lerp(from.radius, to.radius, t);
+
+  // The incoming copy fades in over the outgoing one, which only fades
+  // out in the second half so the element doesn't dim midway
+  const fade = side.direction === "entering" ? t : Math.min(1, 2 - 2 * t);
+
+  return (
+    <>
+      {box}
+      {createPortal(
+        <div
+          className={className}
+          style={{
+            ...style,
+            position: "absolute",
+            left: lerp(from.x, to.x, t),
+            top: lerp(from.y, to.y, t),
+            width,
+            height,
+            margin: 0,
+            boxSizing: "border-box",
+            transform: `scale(${scaleX}, ${scaleY})`,
+            transformOrigin: "0 0",
+            // Counter the scale so the corners keep their interpolated radius
+            borderRadius: `${radius / (scaleX || 1)}px / ${radius / (scaleY || 1)}px`,
+            overflow: radius > 0 ? "hidden" : style?.overflow,
+            opacity: lerp(from.opacity, to.opacity, t) * fade,
+            visibility: "visible",
+          }}
+        >
+          {children}
+        </div>,
+        side.overlay,
+      )}
+    </>
+  );
+};
+
+export default SharedElement;
@@ -9,21 +9,41 @@ import { wipe } from "@remotion/transitions/wipe";
 import { slide } from "@remotion/transitions/slide";
 
 import {
+  angleWipe,
   blurDissolve,
-  flashBlack,
-  flashWhite,
+  clockWipe,
+  directionalWarp,
+  displacement,
+  flash,
+  flip,
   glitch,
+  lumaWipe,
+  magicMove,
+  maskReveal,
+  morph,
   push,
   slideOver,
+  strokeReveal,
   whipPan,
   zoomIn,
   zoomOut,
-  maskReveal,
-  clockWipe,
-  directionalWarp,
-  morph,
+  type AngleWipeProps,
+  type BlurDissolveProps,
+  type ClockWipeProps,
+  type DirectionalWarpProps,
+  type DisplacementProps,
+  type FlashProps,
+  type FlipProps,
+  type GlitchProps,
+  type LumaWipeProps,
+  type MaskRevealProps,
+  type MorphProps,
+  type PresentationOptions,
+  type StrokeRevealProps,
+  type WhipPanProps,
+  type ZoomInProps,
+  type ZoomOutProps,
 } from "./transitions/presentations";
-import { flip } from "./transitions/presentations/flip";
 
 // Re-export with explicit assignment to avoid react-docgen parsing issues
 export const TransitionSeries = RemotionTransitionSeries;
@@ -39,6 +59,7 @@ export type TransitionType =
   | "wipeRight"
   | "wipeUp"
   | "wipeDown"
+  | "wipe"
   | "blurDissolve"
   | "zoomIn"
   | "zoomOut"
@@ -49,6 +70,7 @@ export type TransitionType =
   | "slideOverUp"
   | "slideOverDown"
   | "whipPan"
+  | "flash"
   | "flashWhite"
   | "flashBlack"
   | "glitch"
@@ -56,10 +78,16 @@ export type TransitionType =
   | "flipVertical"
   | "maskReveal"
   | "clockWipe"
+  | "lumaWipe"
   | "warpLeft"
   | "warpRight"
+  | "displacement"
+  | "brushStroke"
+  | "inkSplat"
+  | "scribble"
   | "morphCircle"
-  | "morphRounded";
+  | "morphRounded"
+  | "magicMove";
 
 export type TimingType = "linear" | "spring" | "smooth" | "snappy" | "expo";
 
@@ -94,69 +122,131 @@ export function createTiming(
 // eslint-disable-next-line @typescript-eslint/no-explicit-any
 type AnyPresentation = TransitionPresentation<any>;
 
-export function getPresentation(type: TransitionType): AnyPresentation {
-  switch (type) {
-    case "wipeLeft":
-      return wipe({ direction: "from-right" });
-    case "wipeRight":
-      return wipe({ direction: "from-left" });
-    case "wipeUp":
-      return wipe({ direction: "from-bottom" });
-    case "wipeDown":
-      return wipe({ direction: "from-top" });
-    case "slideLeft":
-      return slide({ direction: "from-right" });
-    case "slideRight":
-      return slide({ direction: "from-left" });
-    case "slideUp":
-      return slide({ direction: "from-bottom" });
-    case "slideDown":
-      return slide({ direction: "from-top" });
-    case "blurDissolve":
-      return blurDissolve();
-    case "zoomIn":
-      return zoomIn();
-    case "zoomOut":
-      return zoomOut();
-    case "pushLeft":
-      return push("left");
-    case "pushRight":
-      return push("right");
-    case "slideOverLeft":
-      return slideOver("left");
-    case "slideOverRight":
-      return slideOver("right");
-    case "slideOverUp":
-      return slideOver("top");
-    case "slideOverDown":
-      return slideOver("bottom");
-    case "whipPan":
-      return whipPan();
-    case "flashWhite":
-      return flashWhite();
-    case "flashBlack":
-      return flashBlack();
-    case "glitch":
-      return glitch();
-    case "flipHorizontal":
-      return flip({ direction: "horizontal" });
-    case "flipVertical":
-      return flip({ direction: "vertical" });
-    case "maskReveal":
-      return maskReveal();
-    case "clockWipe":
-      return clockWipe();
-    case "warpLeft":
-      return directionalWarp("left");
-    case "warpRight":
-      return directionalWarp("right");
-    case "morphCircle":
-      return morph({ shape: "circle" });
-    case "morphRounded":
-      return morph({ shape: "rounded" });
-    default:
-      throw new Error(`Invalid transition type: ${type}`);
+type NoOptions = Record<never, never>;
+
+// Partial props without the index signature presentation props carry for
+// Remotion, so misspelled options are caught
+type OptionsOf<P> = { [K in keyof P as string extends K ? never : K]?: P[K] };
+
+/**
+ * Options of each transition type. Every option is optional and defaults
+ * to the look the transition has without options; the direction of the
+ * directional variants is fixed by their name.
+ */
+export type TransitionOptions = {
+  slideLeft: NoOptions;
+  slideRight: NoOptions;
+  slideUp: NoOptions;
+  slideDown: NoOptions;
+  wipeLeft: NoOptions;
+  wipeRight: NoOptions;
+  wipeUp: NoOptions;
+  wipeDown: NoOptions;
+  wipe: OptionsOf<AngleWipeProps>;
+  blurDissolve: OptionsOf<BlurDissolveProps>;
+  zoomIn: OptionsOf<ZoomInProps>;
+  zoomOut: OptionsOf<ZoomOutProps>;
+  pushLeft: NoOptions;
+  pushRight: NoOptions;
+  slideOverLeft: NoOptions;
+  slideOverRight: NoOptions;
+  slideOverUp: NoOptions;
+  slideOverDown: NoOptions;
+  whipPan: OptionsOf<WhipPanProps>;
+  flash: OptionsOf<FlashProps>;
+  flashWhite: NoOptions;
+  flashBlack: NoOptions;
+  glitch: OptionsOf<GlitchProps>;
+  flipHorizontal: Omit<OptionsOf<FlipProps>, "direction">;
+  flipVertical: Omit<OptionsOf<FlipProps>, "direction">;
+  maskReveal: OptionsOf<MaskRevealProps>;
+  clockWipe: OptionsOf<ClockWipeProps>;
+  lumaWipe: OptionsOf<LumaWipeProps>;
+  warpLeft: Omit<OptionsOf<DirectionalWarpProps>, "direction">;
+  warpRight: Omit<OptionsOf<DirectionalWarpProps>, "direction">;
+  displacement: OptionsOf<DisplacementProps>;
+  brushStroke: Omit<OptionsOf<StrokeRevealProps>, "kind">;
+  inkSplat: Omit<OptionsOf<StrokeRevealProps>, "kind">;
+  scribble: Omit<OptionsOf<StrokeRevealProps>, "kind">;
+  morphCircle: Omit<OptionsOf<MorphProps>, "shape">;
+  morphRounded: Omit<OptionsOf<MorphProps>, "shape">;
+  magicMove: NoOptions;
+};
+
+/**
+ * A transition as data: its type name alone, or an object with the type
+ * and its options, e.g. `{ type: "flash", color: "#f00" }`.
+ */
+export type TransitionSpec = {
+  [T in TransitionType]: T | ({ type: T } & TransitionOptions[T]);
+}[TransitionType];
+
+const PRESENTATIONS: {
+  [T in TransitionType]: (options: TransitionOptions[T]) => AnyPresentation;
+} = {
+  wipeLeft: () => wipe({ direction: "from-right" }),
+  wipeRight: () => wipe({ direction: "from-left" }),
+  wipeUp: () => wipe({ direction: "from-bottom" }),
+  wipeDown: () => wipe({ direction: "from-top" }),
+  wipe: (options) => angleWipe(options),
+  slideLeft: () => slide({ direction: "from-right" }),
+  slideRight: () => slide({ direction: "from-left" }),
+  slideUp: () => slide({ direction: "from-bottom" }),
+  slideDown: () => slide({ direction: "from-top" }),
+  blurDissolve: (options) => blurDissolve(options),
+  zoomIn: (options) => zoomIn(options),
+  zoomOut: (options) => zoomOut(options),
+  pushLeft: () => push({ direction: "left" }),
+  pushRight: () => push({ direction: "right" }),
+  slideOverLeft: () => slideOver({ direction: "left" }),
+  slideOverRight: () => slideOver({ direction: "right" }),
+  slideOverUp: () => slideOver({ direction: "top" }),
+  slideOverDown: () => slideOver({ direction: "bottom" }),
+  whipPan: (options) => whipPan(options),
+  flash: (options) => flash(options),
+  flashWhite: () => flash({ color: "white" }),
+  flashBlack: () => flash({ color: "black" }),
+  glitch: (options) => glitch(options),
+  flipHorizontal: (options) => flip({ ...options, direction: "horizontal" }),
+  flipVertical: (options) => flip({ ...options, direction: "vertical" }),
+  maskReveal: (options) => maskReveal(options),
+  clockWipe: (options) => clockWipe(options),
+  lumaWipe: (options) => lumaWipe(options),
+  warpLeft: (options) => directionalWarp({ ...options, direction: "left" }),
+  warpRight: (options) => directionalWarp({ ...options, direction: "right" }),
+  displacement: (options) => displacement(options),
+  brushStroke: (options) => strokeReveal({ ...options, kind: "brush" }),
+  inkSplat: (options) => strokeReveal({ ...options, kind: "ink" }),
+  scribble: (options) => strokeReveal({ ...options, kind: "scribble" }),
+  morphCircle: (options) => morph({ ...options, shape: "circle" }),
+  morphRounded: (options) => morph({ ...options, shape: "rounded" }),
+  magicMove: () => magicMove(),
+};
+
+/**
+ * Create the presentation of a transition type, optionally configured.
+ * Also accepts a `TransitionSpec` so transitions can come from data.
+ *
+ * @example
+ * getPresentation("blurDissolve");
+ * getPresentation("glitch", { intensity: 0.5, seed: 3 });
+ * getPresentation({ type: "flash", color: "#f00" });
+ */
+export function getPresentation<T extends TransitionType>(
+  type: T,
+  options?: TransitionOptions[T],
+): AnyPresentation;
+export function getPresentation(spec: TransitionSpec): AnyPresentation;
+export function getPresentation(
+  spec: TransitionSpec,
+  options?: PresentationOptions,
+): AnyPresentation {
+  const { type, ...specOptions } = typeof spec === "string" ? { type: spec } : spec;
+  if (!TRANSITION_TYPES.includes(type)) {
+    throw new Error(`Invalid transition type: ${type}`);
   }
+  const create = PRESENTATIONS[type] as (options: PresentationOptions) => AnyPresentation;
+  return create({ ...specOptions, ...options });
 }
 
 export const TRANSITION_TYPES: TransitionType[] = [
@@ -168,6 +258,7 @@ export const TRANSITION_TYPES: TransitionType[] = [
   "wipeRight",
   "wipeUp",
   "wipeDown",
+  "wipe",
   "blurDissolve",
   "zoomIn",
   "zoomOut",
@@ -178,6 +269,7 @@ export const TRANSITION_TYPES: TransitionType[] = [
   "slideOverUp",
   "slideOverDown",
   "whipPan",
+  "flash",
   "flashWhite",
   "flashBlack",
   "glitch",
@@ -185,10 +277,16 @@ export const TRANSITION_TYPES: TransitionType[] = [
   "flipVertical",
   "maskReveal",
   "clockWipe",
+  "lumaWipe",
   "warpLeft",
   "warpRight",
+  "displacement",
+  "brushStroke",
+  "inkSplat",
+  "scribble",
   "morphCircle",
   "morphRounded",
+  "magicMove",
 ];
 
 export const TIMING_TYPES: TimingType[] = [
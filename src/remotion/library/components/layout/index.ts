@@ -11,6 +11,8 @@ export {
   TRANSITION_TYPES,
   TIMING_TYPES,
   type TransitionType,
+  type TransitionOptions,
+  type TransitionSpec,
   type TimingType,
 } from "./Transition";
 export { SplitScreen, type SplitScreenProps, type SplitLayout } from "./SplitScreen";
@@ -39,3 +41,18 @@ export {
   type ShakeProps,
 } from "./Camera";
 export { MaskedReveal, type MaskedRevealProps, type RevealType } from "./MaskedReveal";
+export {
+  GsapLabels,
+  GsapSequence,
+  type GsapLabelsProps,
+  type GsapSequenceProps,
+} from "./GsapSequence";
+export { SharedElement, type SharedElementProps } from "./SharedElement";
+export {
+  SceneSequence,
+  getSceneSequenceDuration,
+  createSceneSequenceMetadata,
+  type SceneSequenceProps,
+  type SceneSequenceItem,
+  type SceneSequenceTransition,
+} from "./SceneSequence";
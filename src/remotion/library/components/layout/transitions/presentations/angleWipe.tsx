@@ -0,0 +1,51 @@
+import { AbsoluteFill } from "remotion";
+import type { TransitionPresentation } from "@remotion/transitions";
+import type { PresentationComponentProps } from "./types";
+
+export interface AngleWipeProps extends Record<string, unknown> {
+  /** Direction the edge travels in degrees, as in CSS gradients: 0 upwards, 90 rightwards */
+  angle: number;
+  /** Width of the soft edge, in % of the wipe length */
+  softness: number;
+}
+
+const AngleWipeComponent: React.FC<PresentationComponentProps<AngleWipeProps>> = ({
+  children,
+  presentationDirection,
+  presentationProgress,
+  passedProps: { angle, softness },
+}) => {
+  const isEntering = presentationDirection === "entering";
+
+  if (isEntering) {
+    // The soft edge starts before and ends past the frame so both ends are clean
+    const edge = presentationProgress * (100 + softness);
+    const mask = `linear-gradient(${angle}deg, black ${edge - softness}%, transparent ${edge}%)`;
+
+    return (
+      <AbsoluteFill
+        style={{
+          WebkitMaskImage: mask,
+          maskImage: mask,
+          zIndex: 1,
+        }}
+      >
+        {children}
+      </AbsoluteFill>
+    );
+  }
+
+  return <AbsoluteFill>{children}</AbsoluteFill>;
+};
+
+export function angleWipe(
+  props?: Partial<AngleWipeProps>
+): TransitionPresentation<AngleWipeProps> {
+  return {
+    component: AngleWipeComponent,
+    props: {
+      angle: props?.angle ?? 90,
+      softness: Math.max(0, props?.softness ?? 0),
+    },
+  };
+}
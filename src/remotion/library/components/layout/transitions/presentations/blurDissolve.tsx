@@ -1,18 +1,24 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
 
-const BlurDissolveComponent: React.FC<PresentationComponentProps> = ({
+export interface BlurDissolveProps extends Record<string, unknown> {
+  /** Blur at the middle of the transition, in px */
+  blur: number;
+}
+
+const BlurDissolveComponent: React.FC<PresentationComponentProps<BlurDissolveProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { blur },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
   const smoothProgress = progress * progress * (3 - 2 * progress);
 
   // Blur peaks in the middle
-  const blurAmount = Math.sin(progress * Math.PI) * 20;
+  const blurAmount = Math.sin(progress * Math.PI) * blur;
 
   // Opacity cross-fade
   const opacity = isEntering ? smoothProgress : 1 - smoothProgress;
@@ -30,9 +36,11 @@ const BlurDissolveComponent: React.FC<PresentationComponentProps> = ({
   );
 };
 
-export function blurDissolve(): TransitionPresentation<CustomProps> {
+export function blurDissolve(
+  props?: Partial<BlurDissolveProps>
+): TransitionPresentation<BlurDissolveProps> {
   return {
     component: BlurDissolveComponent,
-    props: {} as CustomProps,
+    props: { blur: props?.blur ?? 20 },
   };
 }
@@ -1,23 +1,35 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
 
-const ClockWipeComponent: React.FC<PresentationComponentProps> = ({
+export interface ClockWipeProps extends Record<string, unknown> {
+  /** Angle the hand starts at, in degrees clockwise from 12 o'clock */
+  startAngle: number;
+  /** Sweep clockwise (default) or counter-clockwise */
+  clockwise: boolean;
+}
+
+const ClockWipeComponent: React.FC<PresentationComponentProps<ClockWipeProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { startAngle, clockwise },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
 
   if (isEntering) {
     const degrees = progress * 360;
+    // Counter-clockwise, the revealed sector ends at the start angle instead
+    const mask = clockwise
+      ? `conic-gradient(from ${startAngle}deg at 50% 50%, black 0deg, black ${degrees}deg, transparent ${degrees}deg, transparent 360deg)`
+      : `conic-gradient(from ${startAngle}deg at 50% 50%, transparent 0deg, transparent ${360 - degrees}deg, black ${360 - degrees}deg, black 360deg)`;
 
     return (
       <AbsoluteFill
         style={{
-          WebkitMaskImage: `conic-gradient(from 0deg at 50% 50%, black 0deg, black ${degrees}deg, transparent ${degrees}deg, transparent 360deg)`,
-          maskImage: `conic-gradient(from 0deg at 50% 50%, black 0deg, black ${degrees}deg, transparent ${degrees}deg, transparent 360deg)`,
+          WebkitMaskImage: mask,
+          maskImage: mask,
           zIndex: 1,
         }}
       >
@@ -29,9 +41,14 @@ const ClockWipeComponent: React.FC<PresentationComponentProps> = ({
   return <AbsoluteFill>{children}</AbsoluteFill>;
 };
 
-export function clockWipe(): TransitionPresentation<CustomProps> {
+export function clockWipe(
+  props?: Partial<ClockWipeProps>
+): TransitionPresentation<ClockWipeProps> {
   return {
     component: ClockWipeComponent,
-    props: {} as CustomProps,
+    props: {
+      startAngle: props?.startAngle ?? 0,
+      clockwise: props?.clockwise ?? true,
+    },
   };
 }
@@ -1,15 +1,20 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation, TransitionPresentationComponentProps } from "@remotion/transitions";
 
-interface DirectionalWarpProps extends Record<string, unknown> {
+export interface DirectionalWarpProps extends Record<string, unknown> {
+  /** Direction the scenes warp towards */
   direction: "left" | "right";
+  /** Horizontal stretch at the far end of the warp (4 = 5x as wide) */
+  stretch: number;
+  /** Blur at the far end of the warp, in px */
+  blur: number;
 }
 
 const DirectionalWarpComponent: React.FC<TransitionPresentationComponentProps<DirectionalWarpProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
-  passedProps: { direction },
+  passedProps: { direction, stretch, blur: peakBlur },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
@@ -19,8 +24,8 @@ const DirectionalWarpComponent: React.FC<TransitionPresentationComponentProps<Di
   if (isEntering) {
     const inv = 1 - progress;
     const translateX = inv * 100 * dirMult;
-    const scaleX = 1 + (inv * 4);
-    const blur = inv * 20;
+    const scaleX = 1 + (inv * stretch);
+    const blur = inv * peakBlur;
 
     return (
       <AbsoluteFill
@@ -39,8 +44,8 @@ const DirectionalWarpComponent: React.FC<TransitionPresentationComponentProps<Di
   }
 
   const translateX = progress * -100 * dirMult;
-  const scaleX = 1 + (progress * 4);
-  const blur = progress * 20;
+  const scaleX = 1 + (progress * stretch);
+  const blur = progress * peakBlur;
 
   return (
     <AbsoluteFill
@@ -58,10 +63,14 @@ const DirectionalWarpComponent: React.FC<TransitionPresentationComponentProps<Di
 };
 
 export function directionalWarp(
-  direction: "left" | "right" = "left"
+  props?: Partial<DirectionalWarpProps>
 ): TransitionPresentation<DirectionalWarpProps> {
   return {
     component: DirectionalWarpComponent,
-    props: { direction },
+    props: {
+      direction: props?.direction ?? "left",
+      stretch: props?.stretch ?? 4,
+      blur: props?.blur ?? 20,
+    },
   };
 }
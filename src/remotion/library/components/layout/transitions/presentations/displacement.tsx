@@ -0,0 +1,83 @@
+import { useId } from "react";
+import { AbsoluteFill, Img } from "remotion";
+import type { TransitionPresentation } from "@remotion/transitions";
+import { DEFAULT_DISPLACEMENT_MAP, resolveMapSource } from "./imageMaps";
+import type { PresentationComponentProps } from "./types";
+
+export interface DisplacementProps extends Record<string, unknown> {
+  /** Grayscale image the scenes are warped through, e.g. `staticFile("maps/ripple.png")` */
+  src: string;
+  /** Largest offset at the middle of the transition, as a fraction of the frame size */
+  strength: number;
+  /** Length of the crossfade, as a fraction of the transition (0 = cut in the middle) */
+  softness: number;
+}
+
+const DisplacementComponent: React.FC<PresentationComponentProps<DisplacementProps>> = ({
+  children,
+  presentationDirection,
+  presentationProgress,
+  passedProps: { src, strength, softness },
+}) => {
+  const filterId = useId();
+  const isEntering = presentationDirection === "entering";
+  const progress = presentationProgress;
+
+  // The outgoing scene warps away and the incoming one settles from the
+  // opposite offset, both strongest at the cut
+  const scale = isEntering ? -(1 - progress) * strength : progress * strength;
+  const fade = Math.max(softness, 0.001);
+  const opacity = isEntering
+    ? Math.min(1, Math.max(0, (progress - 0.5) / fade + 0.5))
+    : 1;
+
+  return (
+    <AbsoluteFill style={{ opacity, zIndex: isEntering ? 1 : 0 }}>
+      {/* Holds the render until the map has loaded */}
+      <Img src={src} style={{ display: "none" }} />
+      <svg
+        width="0"
+        height="0"
+        style={{ position: "absolute", pointerEvents: "none" }}
+        aria-hidden="true"
+      >
+        <defs>
+          <filter
+            id={filterId}
+            x="0"
+            y="0"
+            width="1"
+            height="1"
+            primitiveUnits="objectBoundingBox"
+            colorInterpolationFilters="sRGB"
+          >
+            <feImage href={src} x="0" y="0" width="1" height="1" preserveAspectRatio="none" result="map" />
+            <feDisplacementMap
+              in="SourceGraphic"
+              in2="map"
+              scale={scale}
+              xChannelSelector="R"
+              yChannelSelector="G"
+            />
+          </filter>
+        </defs>
+      </svg>
+      <AbsoluteFill style={{ filter: scale !== 0 ? `url(#${filterId})` : undefined }}>
+        {children}
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
+
+export function displacement(
+  props?: Partial<DisplacementProps>
+): TransitionPresentation<DisplacementProps> {
+  return {
+    component: DisplacementComponent,
+    props: {
+      src: props?.src ? resolveMapSource(props.src) : DEFAULT_DISPLACEMENT_MAP,
+      strength: props?.strength ?? 0.1,
+      softness: Math.min(1, Math.max(0, props?.softness ?? 0.5)),
+    },
+  };
+}
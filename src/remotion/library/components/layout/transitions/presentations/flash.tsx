@@ -1,11 +1,17 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
 
-const FlashBlackComponent: React.FC<PresentationComponentProps> = ({
+export interface FlashProps extends Record<string, unknown> {
+  /** CSS color the picture flashes to */
+  color: string;
+}
+
+const FlashComponent: React.FC<PresentationComponentProps<FlashProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { color },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
@@ -23,7 +29,7 @@ const FlashBlackComponent: React.FC<PresentationComponentProps> = ({
             </AbsoluteFill>
             <AbsoluteFill
                 style={{
-                    backgroundColor: 'black',
+                    backgroundColor: color,
                     opacity: flashOpacity,
                     pointerEvents: 'none',
                 }}
@@ -41,9 +47,13 @@ const FlashBlackComponent: React.FC<PresentationComponentProps> = ({
   );
 };
 
-export function flashBlack(): TransitionPresentation<CustomProps> {
+export function flash(props?: Partial<FlashProps>): TransitionPresentation<FlashProps> {
   return {
-    component: FlashBlackComponent,
-    props: {} as CustomProps,
+    component: FlashComponent,
+    props: { color: props?.color ?? "white" },
   };
 }
+
+export const flashWhite = () => flash({ color: "white" });
+
+export const flashBlack = () => flash({ color: "black" });
@@ -1,25 +1,34 @@
 import { useMemo } from "react";
 import { AbsoluteFill, random } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
 
-const GlitchComponent: React.FC<PresentationComponentProps> = ({
+export interface GlitchProps extends Record<string, unknown> {
+  /** Strength of the displacement and color shift (1 = default) */
+  intensity: number;
+  /** Number of horizontal slices displaced independently */
+  slices: number;
+  /** Seed of the displacement pattern */
+  seed: number;
+}
+
+const GlitchComponent: React.FC<PresentationComponentProps<GlitchProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { intensity: strength, slices: numSlices, seed: patternSeed },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
 
   const steps = 20;
   const step = Math.floor(progress * steps);
-  const seed = isEntering ? step : step + 100;
+  const seed = patternSeed * 1000 + (isEntering ? step : step + 100);
 
-  const intensity = isEntering
+  const intensity = strength * (isEntering
     ? Math.pow(1 - progress, 2)
-    : Math.pow(progress, 2);
+    : Math.pow(progress, 2));
 
-  const numSlices = 10;
   const sliceHeight = 100 / numSlices;
 
   const slices = useMemo(() => {
@@ -74,9 +83,13 @@ const GlitchComponent: React.FC<PresentationComponentProps> = ({
   );
 };
 
-export function glitch(): TransitionPresentation<CustomProps> {
+export function glitch(props?: Partial<GlitchProps>): TransitionPresentation<GlitchProps> {
   return {
     component: GlitchComponent,
-    props: {} as CustomProps,
+    props: {
+      intensity: props?.intensity ?? 1,
+      slices: Math.max(1, Math.round(props?.slices ?? 10)),
+      seed: props?.seed ?? 0,
+    },
   };
 }
@@ -0,0 +1,31 @@
+import { staticFile } from "remotion";
+
+const svgDataUri = (svg: string) => `data:image/svg+xml,${encodeURIComponent(svg)}`;
+
+/**
+ * Left-to-right brightness ramp, used when a luma wipe has no image.
+ */
+export const DEFAULT_LUMA_MAP = svgDataUri(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256" preserveAspectRatio="none">` +
+    `<linearGradient id="g"><stop offset="0" stop-color="#000"/><stop offset="1" stop-color="#fff"/></linearGradient>` +
+    `<rect width="256" height="256" fill="url(#g)"/></svg>`,
+);
+
+/**
+ * Grayscale cloud noise, used when a displacement has no image.
+ */
+export const DEFAULT_DISPLACEMENT_MAP = svgDataUri(
+  `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512">` +
+    `<filter id="n"><feTurbulence type="fractalNoise" baseFrequency="0.008" numOctaves="3" seed="7"/>` +
+    `<feColorMatrix type="saturate" values="0"/></filter>` +
+    `<rect width="512" height="512" filter="url(#n)"/></svg>`,
+);
+
+/**
+ * URL of a map image: URLs (including `staticFile()` results) are kept,
+ * other paths are looked up in the public folder, so scene documents can
+ * name files like "wipes/radial.png".
+ */
+export function resolveMapSource(src: string): string {
+  return /^(\/|[a-z]+:)/i.test(src) ? src : staticFile(src);
+}
@@ -1,14 +1,19 @@
-export { blurDissolve } from "./blurDissolve";
-export { flashBlack } from "./flashBlack";
-export { flashWhite } from "./flashWhite";
-export { glitch } from "./glitch";
-export { push } from "./push";
-export { whipPan } from "./whipPan";
-export { zoomIn } from "./zoomIn";
-export { zoomOut } from "./zoomOut";
-export { slideOver } from "./slideOver";
-export { maskReveal } from "./maskReveal";
-export { clockWipe } from "./clockWipe";
-export { directionalWarp } from "./directionalWarp";
-export { morph } from "./morph";
-export type { CustomProps, PresentationComponentProps } from "./types";
+export { angleWipe, type AngleWipeProps } from "./angleWipe";
+export { blurDissolve, type BlurDissolveProps } from "./blurDissolve";
+export { flash, flashBlack, flashWhite, type FlashProps } from "./flash";
+export { glitch, type GlitchProps } from "./glitch";
+export { push, type PushProps } from "./push";
+export { whipPan, type WhipPanProps } from "./whipPan";
+export { zoomIn, type ZoomInProps } from "./zoomIn";
+export { zoomOut, type ZoomOutProps } from "./zoomOut";
+export { slideOver, type SlideOverProps } from "./slideOver";
+export { maskReveal, type MaskRevealProps } from "./maskReveal";
+export { clockWipe, type ClockWipeProps } from "./clockWipe";
+export { lumaWipe, type LumaWipeProps } from "./lumaWipe";
+export { directionalWarp, type DirectionalWarpProps } from "./directionalWarp";
+export { displacement, type DisplacementProps } from "./displacement";
+export { strokeReveal, type StrokeRevealProps, type StrokeRevealKind } from "./strokeReveal";
+export { flip, type FlipProps } from "./flip";
+export { morph, type MorphProps } from "./morph";
+export { magicMove, type MagicMoveProps } from "./magicMove";
+export type { PresentationOptions, PresentationComponentProps } from "./types";
@@ -0,0 +1,83 @@
+import { useId } from "react";
+import { AbsoluteFill, Img } from "remotion";
+import type { TransitionPresentation } from "@remotion/transitions";
+import { DEFAULT_LUMA_MAP, resolveMapSource } from "./imageMaps";
+import type { PresentationComponentProps } from "./types";
+
+export interface LumaWipeProps extends Record<string, unknown> {
+  /** Grayscale image whose dark areas reveal first, e.g. `staticFile("wipes/radial.png")` */
+  src: string;
+  /** Width of the soft edge, as a fraction of the brightness range (0-1) */
+  softness: number;
+  /** Reveal the bright areas first */
+  invert: boolean;
+}
+
+const LumaWipeComponent: React.FC<PresentationComponentProps<LumaWipeProps>> = ({
+  children,
+  presentationDirection,
+  presentationProgress,
+  passedProps: { src, softness, invert },
+}) => {
+  const filterId = useId();
+  const isEntering = presentationDirection === "entering";
+  const progress = presentationProgress;
+
+  if (!isEntering) {
+    return <AbsoluteFill>{children}</AbsoluteFill>;
+  }
+
+  // The threshold sweeps past both ends of the brightness range, so the
+  // soft edge enters and leaves the frame completely. Pixels darker than
+  // the threshold are shown, fading out across the soft edge
+  const edge = Math.max(softness, 0.001);
+  const threshold = progress * (1 + edge);
+  const slope = invert ? 1 / edge : -1 / edge;
+  const intercept = invert ? (threshold - 1) / edge : threshold / edge;
+
+  return (
+    <AbsoluteFill style={{ zIndex: 1 }}>
+      {/* Holds the render until the map has loaded */}
+      <Img src={src} style={{ display: "none" }} />
+      <svg
+        width="0"
+        height="0"
+        style={{ position: "absolute", pointerEvents: "none" }}
+        aria-hidden="true"
+      >
+        <defs>
+          <filter
+            id={filterId}
+            x="0"
+            y="0"
+            width="1"
+            height="1"
+            primitiveUnits="objectBoundingBox"
+            colorInterpolationFilters="sRGB"
+          >
+            <feImage href={src} x="0" y="0" width="1" height="1" preserveAspectRatio="none" result="map" />
+            <feColorMatrix in="map" type="luminanceToAlpha" result="luma" />
+            <feComponentTransfer in="luma" result="matte">
+              <feFuncA type="linear" slope={slope} intercept={intercept} />
+            </feComponentTransfer>
+            <feComposite in="SourceGraphic" in2="matte" operator="in" />
+          </filter>
+        </defs>
+      </svg>
+      <AbsoluteFill style={{ filter: progress < 1 ? `url(#${filterId})` : undefined }}>
+        {children}
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
+
+export function lumaWipe(props?: Partial<LumaWipeProps>): TransitionPresentation<LumaWipeProps> {
+  return {
+    component: LumaWipeComponent,
+    props: {
+      src: props?.src ? resolveMapSource(props.src) : DEFAULT_LUMA_MAP,
+      softness: Math.min(1, Math.max(0, props?.softness ?? 0.1)),
+      invert: props?.invert ?? false,
+    },
+  };
+}
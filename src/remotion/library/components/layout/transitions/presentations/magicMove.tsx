@@ -0,0 +1,71 @@
+import React, { createContext, useState } from "react";
+import { AbsoluteFill } from "remotion";
+import type { TransitionPresentation } from "@remotion/transitions";
+import type { PresentationComponentProps } from "./types";
+
+export type MagicMoveProps = Record<string, never>;
+
+/**
+ * One side of a running magic move, as seen by the `SharedElement`s in its
+ * scene.
+ */
+export interface MagicMoveSide {
+  direction: "entering" | "exiting";
+  /** Progress of the transition (0-1) */
+  progress: number;
+  /** Element wrapping this side, marked with `data-magic-move-side` */
+  root: HTMLDivElement;
+  /** Layer above both scenes the shared elements fly in */
+  overlay: HTMLDivElement;
+}
+
+export const MagicMoveContext = createContext<MagicMoveSide | null>(null);
+
+const MagicMoveComponent: React.FC<PresentationComponentProps<MagicMoveProps>> = ({
+  children,
+  presentationDirection,
+  presentationProgress,
+}) => {
+  const [root, setRoot] = useState<HTMLDivElement | null>(null);
+  const [overlay, setOverlay] = useState<HTMLDivElement | null>(null);
+  const isEntering = presentationDirection === "entering";
+  const progress = presentationProgress;
+
+  const side =
+    root && overlay
+      ? { direction: presentationDirection, progress, root, overlay }
+      : null;
+
+  // The roots don't create stacking contexts, so the layers of both sides
+  // interleave: exiting scene, entering scene, then the shared elements
+  // of the exiting and entering scene above both
+  return (
+    <AbsoluteFill ref={setRoot} data-magic-move-side={presentationDirection}>
+      <AbsoluteFill
+        style={{
+          opacity: isEntering ? progress : 1,
+          zIndex: isEntering ? 1 : 0,
+        }}
+      >
+        <MagicMoveContext.Provider value={side}>{children}</MagicMoveContext.Provider>
+      </AbsoluteFill>
+      <AbsoluteFill
+        ref={setOverlay}
+        style={{ zIndex: isEntering ? 3 : 2, pointerEvents: "none" }}
+      />
+    </AbsoluteFill>
+  );
+};
+
+/**
+ * Keynote-style magic move: every `SharedElement` with the same id in
+ * both scenes travels between its two layouts, interpolating position,
+ * size, border radius and opacity, while the scenes cross-fade.
+ * Elements without a counterpart fade with their scene.
+ */
+export function magicMove(): TransitionPresentation<MagicMoveProps> {
+  return {
+    component: MagicMoveComponent,
+    props: {} as MagicMoveProps,
+  };
+}
@@ -1,23 +1,32 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
 
-const MaskRevealComponent: React.FC<PresentationComponentProps> = ({
+export interface MaskRevealProps extends Record<string, unknown> {
+  /** Horizontal center of the circle, in % of the width */
+  x: number;
+  /** Vertical center of the circle, in % of the height */
+  y: number;
+}
+
+const MaskRevealComponent: React.FC<PresentationComponentProps<MaskRevealProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { x, y },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
 
   if (isEntering) {
     const t = progress;
+    // 150% of the reference radius covers the frame from any center inside it
     const radius = t * 150;
 
     return (
       <AbsoluteFill
         style={{
-          clipPath: `circle(${radius}% at 50% 50%)`,
+          clipPath: `circle(${radius}% at ${x}% ${y}%)`,
           zIndex: 1,
         }}
       >
@@ -29,9 +38,11 @@ const MaskRevealComponent: React.FC<PresentationComponentProps> = ({
   return <AbsoluteFill>{children}</AbsoluteFill>;
 };
 
-export function maskReveal(): TransitionPresentation<CustomProps> {
+export function maskReveal(
+  props?: Partial<MaskRevealProps>
+): TransitionPresentation<MaskRevealProps> {
   return {
     component: MaskRevealComponent,
-    props: {} as CustomProps,
+    props: { x: props?.x ?? 50, y: props?.y ?? 50 },
   };
 }
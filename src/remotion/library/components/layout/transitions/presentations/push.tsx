@@ -1,7 +1,8 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation, TransitionPresentationComponentProps } from "@remotion/transitions";
 
-interface PushProps extends Record<string, unknown> {
+export interface PushProps extends Record<string, unknown> {
+  /** Direction the new scene pushes the old one towards */
   direction: "left" | "right";
 }
 
@@ -46,11 +47,9 @@ const PushComponent: React.FC<TransitionPresentationComponentProps<PushProps>> =
   );
 };
 
-export function push(
-  direction: "left" | "right"
-): TransitionPresentation<PushProps> {
+export function push(props?: Partial<PushProps>): TransitionPresentation<PushProps> {
   return {
     component: PushComponent,
-    props: { direction },
+    props: { direction: props?.direction ?? "left" },
   };
 }
@@ -1,7 +1,8 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation, TransitionPresentationComponentProps } from "@remotion/transitions";
 
-interface SlideOverProps extends Record<string, unknown> {
+export interface SlideOverProps extends Record<string, unknown> {
+  /** Direction the new scene slides towards */
   direction: "left" | "right" | "top" | "bottom";
 }
 
@@ -45,10 +46,10 @@ const SlideOverComponent: React.FC<TransitionPresentationComponentProps<SlideOve
 };
 
 export function slideOver(
-  direction: "left" | "right" | "top" | "bottom"
+  props?: Partial<SlideOverProps>
 ): TransitionPresentation<SlideOverProps> {
   return {
     component: SlideOverComponent,
-    props: { direction },
+    props: { direction: props?.direction ?? "left" },
   };
 }
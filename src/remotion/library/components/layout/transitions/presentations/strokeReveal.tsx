@@ -0,0 +1,252 @@
+import { useId, useMemo } from "react";
+import { AbsoluteFill, Easing, random, useVideoConfig } from "remotion";
+import type { TransitionPresentation } from "@remotion/transitions";
+import { getTrimDash, wobblePath, type StrokePoint } from "../../../paths/strokes";
+import type { PresentationComponentProps } from "./types";
+
+export type StrokeRevealKind = "brush" | "ink" | "scribble";
+
+export interface StrokeRevealProps extends Record<string, unknown> {
+  /** Brush strokes across the frame, growing ink splats, or one zig-zag scribble */
+  kind: StrokeRevealKind;
+  /** Seed of the stroke layout. Use a different seed per cut to vary it */
+  seed: string | number;
+  /** Number of brush strokes, ink splats, or scribble lines */
+  count: number;
+  /** Hand-drawn wobble (0 = clean, 1 = messy) */
+  wobble: number;
+}
+
+// Geometry of a mask, in px of the composition
+type StrokeMask =
+  | { kind: "strokes"; strokes: { d: string; width: number; start: number }[]; drawTime: number }
+  | { kind: "splats"; splats: { d: string; x: number; y: number; start: number }[]; radius: number };
+
+const easeStroke = Easing.inOut(Easing.quad);
+const easeSplat = Easing.out(Easing.cubic);
+
+// Strokes overlap so the next one starts halfway through the previous
+const STROKE_OVERLAP = 0.5;
+
+function createBrushMask(
+  width: number,
+  height: number,
+  count: number,
+  wobble: number,
+  seed: string,
+): StrokeMask {
+  const band = height / count;
+  const drawTime = 1 / ((count - 1) * (1 - STROKE_OVERLAP) + 1);
+
+  const strokes = Array.from({ length: count }, (_, i) => {
+    const y = (i + 0.5) * band + (random(`${seed}-brush-y-${i}`) - 0.5) * band * 0.3;
+    // Strokes run past both edges, alternating direction like a painter
+    const points: StrokePoint[] = Array.from({ length: 6 }, (_, k) => [
+      -0.1 * width + (k / 5) * 1.2 * width,
+      y + (random(`${seed}-brush-${i}-${k}`) - 0.5) * band * 0.3,
+    ]);
+    if (i % 2 === 1) points.reverse();
+
+    return {
+      d: wobblePath(points, band * 0.4 * wobble, `${seed}-brush-${i}`),
+      // Wide enough to cover the gaps the jitter and wobble leave between bands
+      width: band * 2,
+      start: i * drawTime * (1 - STROKE_OVERLAP),
+    };
+  });
+
+  return { kind: "strokes", strokes, drawTime };
+}
+
+function createScribbleMask(
+  width: number,
+  height: number,
+  count: number,
+  wobble: number,
+  seed: string,
+): StrokeMask {
+  const step = height / count;
+  // One continuous line zig-zagging down the frame, past both sides
+  const points: StrokePoint[] = Array.from({ length: count + 2 }, (_, k) => [
+    k % 2 === 0 ? -0.1 * width : 1.1 * width,
+    (k - 0.5) * step + (random(`${seed}-scribble-${k}`) - 0.5) * step * 0.4,
+  ]);
+
+  return {
+    kind: "strokes",
+    strokes: [
+      {
+        d: wobblePath(points, step * 0.5 * wobble, `${seed}-scribble`),
+        // Covers the widest gap between two runs inside the frame, wobble included
+        width: step * 3,
+        start: 0,
+      },
+    ],
+    drawTime: 1,
+  };
+}
+
+function createInkMask(
+  width: number,
+  height: number,
+  count: number,
+  wobble: number,
+  seed: string,
+): StrokeMask {
+  const splats = Array.from({ length: count }, (_, i) => {
+    const splatSeed = `${seed}-ink-${i}`;
+
+    // Blob around (0, 0) with a radius between 0.85 and 1.15, scaled up as it grows
+    const steps = 12;
+    const outline: StrokePoint[] = Array.from({ length: steps + 1 }, (_, k) => {
+      const angle = ((k % steps) / steps) * Math.PI * 2;
+      const r = 0.85 + random(`${splatSeed}-r-${k % steps}`) * 0.3;
+      return [Math.cos(angle) * r, Math.sin(angle) * r];
+    });
+    let d = `${wobblePath(outline, 0.15 * wobble, splatSeed)} Z`;
+
+    // Droplets thrown around the splat
+    for (let k = 0; k < 3; k++) {
+      const angle = random(`${splatSeed}-drop-a-${k}`) * Math.PI * 2;
+      const distance = 1.2 + random(`${splatSeed}-drop-d-${k}`) * 0.5;
+      const r = 0.06 + random(`${splatSeed}-drop-r-${k}`) * 0.08;
+      const x = Math.cos(angle) * distance;
+      const y = Math.sin(angle) * distance;
+      d += ` M ${x - r} ${y} a ${r} ${r} 0 1 0 ${2 * r} 0 a ${r} ${r} 0 1 0 ${-2 * r} 0`;
+    }
+
+    return {
+      d,
+      x: random(`${splatSeed}-x`) * width,
+      y: random(`${splatSeed}-y`) * height,
+      start: (i / count) * 0.5,
+    };
+  });
+
+  // Every splat ends up covering the frame from wherever it lands
+  return { kind: "splats", splats, radius: Math.hypot(width, height) * 1.4 };
+}
+
+const MASKS: Record<
+  StrokeRevealKind,
+  (width: number, height: number, count: number, wobble: number, seed: string) => StrokeMask
+> = {
+  brush: createBrushMask,
+  ink: createInkMask,
+  scribble: createScribbleMask,
+};
+
+// The shapes of the mask at a given progress, white where the scene shows
+const MaskShapes: React.FC<{ mask: StrokeMask; progress: number }> = ({ mask, progress }) => {
+  if (mask.kind === "strokes") {
+    return (
+      <>
+        {mask.strokes.map((stroke, i) => {
+          const local = Math.min(1, Math.max(0, (progress - stroke.start) / mask.drawTime));
+          // A zero-length dash still draws the round caps
+          if (local <= 0) return null;
+          return (
+            <path
+              key={i}
+              d={stroke.d}
+              pathLength={1}
+              fill="none"
+              stroke="#fff"
+              strokeWidth={stroke.width}
+              strokeLinecap="round"
+              strokeLinejoin="round"
+              {...getTrimDash(1, 0, easeStroke(local))}
+            />
+          );
+        })}
+      </>
+    );
+  }
+
+  return (
+    <>
+      {mask.splats.map((splat, i) => {
+        const local = Math.min(1, Math.max(0, (progress - splat.start) / (1 - splat.start)));
+        if (local <= 0) return null;
+        const scale = easeSplat(local) * mask.radius;
+        return (
+          <path
+            key={i}
+            d={splat.d}
+            fill="#fff"
+            transform={`translate(${splat.x} ${splat.y}) scale(${scale})`}
+          />
+        );
+      })}
+    </>
+  );
+};
+
+const StrokeRevealComponent: React.FC<PresentationComponentProps<StrokeRevealProps>> = ({
+  children,
+  presentationDirection,
+  presentationProgress,
+  passedProps: { kind, seed, count, wobble },
+}) => {
+  const maskId = useId();
+  const { width, height } = useVideoConfig();
+  const isEntering = presentationDirection === "entering";
+
+  const mask = useMemo(
+    () => MASKS[kind](width, height, count, wobble, String(seed)),
+    [kind, width, height, count, wobble, seed],
+  );
+
+  if (!isEntering || presentationProgress >= 1) {
+    return <AbsoluteFill>{children}</AbsoluteFill>;
+  }
+
+  return (
+    <AbsoluteFill style={{ zIndex: 1 }}>
+      <svg
+        width="0"
+        height="0"
+        style={{ position: "absolute", pointerEvents: "none" }}
+        aria-hidden="true"
+      >
+        <defs>
+          <mask
+            id={maskId}
+            x="0"
+            y="0"
+            width={width}
+            height={height}
+            maskUnits="userSpaceOnUse"
+            maskContentUnits="userSpaceOnUse"
+          >
+            <MaskShapes mask={mask} progress={presentationProgress} />
+          </mask>
+        </defs>
+      </svg>
+      <AbsoluteFill style={{ WebkitMask: `url(#${maskId})`, mask: `url(#${maskId})` }}>
+        {children}
+      </AbsoluteFill>
+    </AbsoluteFill>
+  );
+};
+
+/**
+ * Reveal the incoming scene through hand-drawn strokes: overlapping
+ * brush strokes, growing ink splats, or a zig-zag scribble. The strokes
+ * are drawn like `TrimPath` and wobbled like `Scribble`, and are the
+ * same for the same seed.
+ */
+export function strokeReveal(
+  props?: Partial<StrokeRevealProps>
+): TransitionPresentation<StrokeRevealProps> {
+  const kind = props?.kind ?? "brush";
+  return {
+    component: StrokeRevealComponent,
+    props: {
+      kind,
+      seed: props?.seed ?? 0,
+      count: Math.max(1, Math.round(props?.count ?? (kind === "scribble" ? 10 : 5))),
+      wobble: Math.min(1, Math.max(0, props?.wobble ?? 0.5)),
+    },
+  };
+}
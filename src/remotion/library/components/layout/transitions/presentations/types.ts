@@ -1,10 +1,10 @@
-import type React from "react";
+import type { TransitionPresentationComponentProps } from "@remotion/transitions";
 
-export type CustomProps = Record<string, never>;
+/**
+ * Options object of a presentation. Remotion hands it back to the
+ * presentation component as `passedProps`.
+ */
+export type PresentationOptions = Record<string, unknown>;
 
-export interface PresentationComponentProps {
-  children: React.ReactNode;
-  presentationDirection: "entering" | "exiting";
-  presentationProgress: number;
-  passedProps: CustomProps;
-}
+export type PresentationComponentProps<P extends PresentationOptions> =
+  TransitionPresentationComponentProps<P>;
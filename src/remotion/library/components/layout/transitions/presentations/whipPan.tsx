@@ -1,26 +1,34 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
+
+export interface WhipPanProps extends Record<string, unknown> {
+  /** Direction the camera pans the picture towards */
+  direction: "left" | "right";
+  /** Motion blur at full speed, in px */
+  blur: number;
+}
 
 const easeIn = (t: number) => t * t * t;
 const easeOut = (t: number) => 1 - Math.pow(1 - t, 3);
 
-const WhipPanComponent: React.FC<PresentationComponentProps> = ({
+const WhipPanComponent: React.FC<PresentationComponentProps<WhipPanProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { direction: panDirection, blur },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
 
-  const direction = 1;
+  const direction = panDirection === "left" ? 1 : -1;
   const width = 100;
 
   if (isEntering) {
       const t = easeOut(progress);
       const translateX = (1 - t) * width * direction;
       const speed = (1 - progress);
-      const blurAmount = speed * 50;
+      const blurAmount = speed * blur;
 
       return (
         <AbsoluteFill style={{ overflow: 'hidden' }}>
@@ -43,7 +51,7 @@ const WhipPanComponent: React.FC<PresentationComponentProps> = ({
       const t = easeIn(progress);
       const translateX = t * -width * direction;
       const speed = progress;
-      const blurAmount = speed * 50;
+      const blurAmount = speed * blur;
 
        return (
         <AbsoluteFill style={{ overflow: 'hidden' }}>
@@ -65,9 +73,12 @@ const WhipPanComponent: React.FC<PresentationComponentProps> = ({
   }
 };
 
-export function whipPan(): TransitionPresentation<CustomProps> {
+export function whipPan(props?: Partial<WhipPanProps>): TransitionPresentation<WhipPanProps> {
   return {
     component: WhipPanComponent,
-    props: {} as CustomProps,
+    props: {
+      direction: props?.direction ?? "left",
+      blur: props?.blur ?? 50,
+    },
   };
 }
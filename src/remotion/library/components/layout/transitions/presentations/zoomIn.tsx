@@ -1,19 +1,27 @@
 import { AbsoluteFill } from "remotion";
 import type { TransitionPresentation } from "@remotion/transitions";
-import type { CustomProps, PresentationComponentProps } from "./types";
+import type { PresentationComponentProps } from "./types";
 
-const ZoomInComponent: React.FC<PresentationComponentProps> = ({
+export interface ZoomInProps extends Record<string, unknown> {
+  /** Change of scale over the transition (0.5 = from or to half size) */
+  scale: number;
+  /** Blur at the far end of the zoom, in px */
+  blur: number;
+}
+
+const ZoomInComponent: React.FC<PresentationComponentProps<ZoomInProps>> = ({
   children,
   presentationDirection,
   presentationProgress,
+  passedProps: { scale: zoom, blur: peakBlur },
 }) => {
   const isEntering = presentationDirection === "entering";
   const progress = presentationProgress;
   const smoothProgress = progress * progress * (3 - 2 * progress);
 
   if (isEntering) {
-    const scale = 0.5 + smoothProgress * 0.5;
-    const blur = (1 - smoothProgress) * 5;
+    const scale = 1 - zoom + smoothProgress * zoom;
+    const blur = (1 - smoothProgress) * peakBlur;
     return (
       <AbsoluteFill
         style={{
@@ -27,8 +35,8 @@ const ZoomInComponent: React.FC<PresentationComponentProps> = ({
     );
   }
 
-  const scale = 1 + smoothProgress * 0.5;
-  const blur = smoothProgress * 5;
+  const scale = 1 + smoothProgress * zoom;
+  const blur = smoothProgress * peakBlur;
   return (
     <AbsoluteFill
       style={{
@@ -42,9 +50,9 @@ const ZoomInComponent: React.FC<PresentationComponentProps> = ({
   );
 };
 
-export function zoomIn(): TransitionPresentation<CustomProps> {
+export function zoomIn(props?: Partial<ZoomInProps>): TransitionPresentation<ZoomInProps> {
   return {
     component: ZoomInComponent,
-    props: {} as CustomProps,
+    props: { scale: props?.scale ?? 0.5, blur: props?.blur ?? 5 },
   };
 }
@@ -9,6 +9,7 @@ import { useCurrentFrame, useVideoConfig, interpolate } from "remotion";
 import { type EasingName } from "../../presets/easings";
 import { getDuration, type DurationName } from "../../presets/durations";
 import { toRemotionEasing } from "../../presets/remotionEasings";
+import { getTrimDash } from "./strokes";
 
 /**
  * Props for TrimPath component.
@@ -137,16 +138,7 @@ export const TrimPath: React.FC<TrimPathProps> = ({
       return { strokeDasharray: "0", strokeDashoffset: "0" };
 
     // Animate from start to end
-    const animatedStart = start;
-    const animatedEnd = start + (end - start) * progress;
-
-    const visibleLength = (animatedEnd - animatedStart) * pathLength;
-    const offset = animatedStart * pathLength;
-
-    return {
-      strokeDasharray: `${visibleLength} ${pathLength}`,
-      strokeDashoffset: -offset,
-    };
+    return getTrimDash(pathLength, start, start + (end - start) * progress);
   }, [pathLength, start, end, progress]);
 
   return (
@@ -267,13 +259,7 @@ export const DrawPath: React.FC<DrawPathProps> = ({
       return { strokeDasharray: "0", strokeDashoffset: "0" };
 
     const start = trail > 0 ? Math.max(0, progress - trail) : 0;
-    const visibleLength = (progress - start) * pathLength;
-    const offset = start * pathLength;
-
-    return {
-      strokeDasharray: `${visibleLength} ${pathLength}`,
-      strokeDashoffset: -offset,
-    };
+    return getTrimDash(pathLength, start, progress);
   }, [pathLength, progress, trail]);
 
   return (
@@ -14,3 +14,8 @@ export {
   type MotionPathProps,
   type MotionPathWithTrailProps,
 } from "./MotionPath";
+export {
+  wobblePath,
+  getTrimDash,
+  type StrokePoint,
+} from "./strokes";
@@ -0,0 +1,54 @@
+import { random } from "remotion";
+
+/**
+ * Point of a hand-drawn stroke, as [x, y].
+ */
+export type StrokePoint = [number, number];
+
+/**
+ * Turn points into a hand-drawn path: each point is jittered and joined
+ * to the next by a quadratic curve with a jittered control point.
+ * Deterministic for a given seed.
+ *
+ * @example
+ * const d = wobblePath([[0, 50], [100, 48], [200, 52]], 4, "underline");
+ */
+export function wobblePath(
+  points: StrokePoint[],
+  wobbleAmount: number,
+  seed: string,
+): string {
+  if (points.length < 2) return "";
+  const wobbled = points.map(([x, y], i) => {
+    const wx = x + (random(`${seed}-wx-${i}`) - 0.5) * wobbleAmount;
+    const wy = y + (random(`${seed}-wy-${i}`) - 0.5) * wobbleAmount;
+    return [wx, wy] as StrokePoint;
+  });
+
+  let d = `M ${wobbled[0][0]} ${wobbled[0][1]}`;
+  for (let i = 1; i < wobbled.length; i++) {
+    const prev = wobbled[i - 1];
+    const curr = wobbled[i];
+    // Quadratic bezier for hand-drawn feel
+    const cpx = (prev[0] + curr[0]) / 2 + (random(`${seed}-cpx-${i}`) - 0.5) * wobbleAmount * 1.5;
+    const cpy = (prev[1] + curr[1]) / 2 + (random(`${seed}-cpy-${i}`) - 0.5) * wobbleAmount * 1.5;
+    d += ` Q ${cpx} ${cpy} ${curr[0]} ${curr[1]}`;
+  }
+  return d;
+}
+
+/**
+ * Dash settings showing only the part of a stroke between `start` and
+ * `end` (0-1). With `pathLength` 1 they work on paths declaring
+ * `pathLength="1"`, without measuring them.
+ */
+export function getTrimDash(
+  pathLength: number,
+  start: number,
+  end: number,
+): { strokeDasharray: string; strokeDashoffset: number } {
+  return {
+    strokeDasharray: `${(end - start) * pathLength} ${pathLength}`,
+    strokeDashoffset: -start * pathLength,
+  };
+}
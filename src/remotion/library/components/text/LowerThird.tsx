@@ -1,5 +1,6 @@
 import React from "react";
 import { useCurrentFrame, useVideoConfig, interpolate, Easing } from "remotion";
+import { useLayout } from "../../hooks/useLayout";
 
 export type LowerThirdStyle = "minimal" | "boxed" | "accent" | "split" | "gradient";
 
@@ -20,13 +21,17 @@ export interface LowerThirdProps {
   duration?: number;
   /** Delay before animation in seconds */
   delay?: number;
-  /** Position from bottom edge in pixels */
+  /**
+   * Position from bottom edge in design pixels (scaled with the layout unit).
+   * Defaults to 80, or 28% of the frame height in portrait to clear the
+   * caption area of vertical video apps.
+   */
   bottom?: number;
-  /** Position from left edge in pixels */
+  /** Position from left edge in design pixels */
   left?: number;
-  /** Title font size */
+  /** Title font size in design pixels */
   titleSize?: number;
-  /** Subtitle font size */
+  /** Subtitle font size in design pixels */
   subtitleSize?: number;
   /** Font family */
   fontFamily?: string;
@@ -37,6 +42,7 @@ export interface LowerThirdProps {
 /**
  * Animated lower third title card.
  * Standard motion graphics element for names, titles, locations.
+ * Sizes adapt to the composition through `useLayout`.
  *
  * @example
  * <LowerThird title="John Smith" subtitle="CEO & Founder" lowerThirdStyle="accent" color="#FF6B6B" />
@@ -50,7 +56,7 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
   textColor = "#ffffff",
   duration = 0.6,
   delay = 0,
-  bottom = 80,
+  bottom,
   left = 60,
   titleSize = 28,
   subtitleSize = 16,
@@ -60,6 +66,12 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { scale, select, height } = useLayout();
+
+  const bottomPx =
+    bottom !== undefined
+      ? scale(bottom)
+      : select({ landscape: scale(80), portrait: height * 0.28 });
 
   const delayFrames = Math.round(delay * fps);
   const durationFrames = Math.max(1, Math.round(duration * fps));
@@ -81,8 +93,8 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
   const getStyles = () => {
     const base: React.CSSProperties = {
       position: "absolute",
-      bottom,
-      left,
+      bottom: bottomPx,
+      left: scale(left),
       fontFamily,
       zIndex: 5,
     };
@@ -93,26 +105,26 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
           container: {
             ...base,
             opacity: slideIn,
-            transform: `translateY(${(1 - slideIn) * 20}px)`,
+            transform: `translateY(${scale((1 - slideIn) * 20)}px)`,
           },
           title: {
-            fontSize: titleSize,
+            fontSize: scale(titleSize),
             fontWeight: 700 as const,
             color: textColor,
             lineHeight: 1.2,
           },
           subtitle: {
-            fontSize: subtitleSize,
+            fontSize: scale(subtitleSize),
             fontWeight: 400 as const,
             color: `${textColor}99`,
-            marginTop: 4,
+            marginTop: scale(4),
             opacity: subtitleIn,
           },
           accent: {
-            width: 30 * slideIn,
-            height: 3,
+            width: scale(30 * slideIn),
+            height: scale(3),
             backgroundColor: color,
-            marginBottom: 8,
+            marginBottom: scale(8),
           },
         };
 
@@ -123,19 +135,19 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
             clipPath: `inset(0 ${100 - slideIn * 100}% 0 0)`,
           },
           title: {
-            fontSize: titleSize,
+            fontSize: scale(titleSize),
             fontWeight: 700 as const,
             color: textColor,
             backgroundColor,
-            padding: "8px 20px",
+            padding: `${scale(8)}px ${scale(20)}px`,
             display: "inline-block" as const,
           },
           subtitle: {
-            fontSize: subtitleSize,
+            fontSize: scale(subtitleSize),
             fontWeight: 400 as const,
             color: textColor,
             backgroundColor: `${color}CC`,
-            padding: "4px 20px",
+            padding: `${scale(4)}px ${scale(20)}px`,
             display: "inline-block" as const,
             opacity: subtitleIn,
           },
@@ -148,26 +160,26 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
             ...base,
             display: "flex" as const,
             alignItems: "stretch" as const,
-            gap: 12,
+            gap: scale(12),
             opacity: slideIn,
-            transform: `translateX(${(1 - slideIn) * -30}px)`,
+            transform: `translateX(${scale((1 - slideIn) * -30)}px)`,
           },
           title: {
-            fontSize: titleSize,
+            fontSize: scale(titleSize),
             fontWeight: 700 as const,
             color: textColor,
           },
           subtitle: {
-            fontSize: subtitleSize,
+            fontSize: scale(subtitleSize),
             fontWeight: 400 as const,
             color: `${textColor}99`,
-            marginTop: 2,
+            marginTop: scale(2),
             opacity: subtitleIn,
           },
           accent: {
-            width: 4,
+            width: scale(4),
             backgroundColor: color,
-            borderRadius: 2,
+            borderRadius: scale(2),
             alignSelf: "stretch" as const,
             flexShrink: 0,
           },
@@ -179,18 +191,18 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
             ...base,
             display: "flex" as const,
             alignItems: "center" as const,
-            gap: 16,
+            gap: scale(16),
             opacity: slideIn,
           },
           title: {
-            fontSize: titleSize,
+            fontSize: scale(titleSize),
             fontWeight: 700 as const,
             color: textColor,
             backgroundColor: color,
-            padding: "6px 16px",
+            padding: `${scale(6)}px ${scale(16)}px`,
           },
           subtitle: {
-            fontSize: subtitleSize,
+            fontSize: scale(subtitleSize),
             fontWeight: 500 as const,
             color: textColor,
             opacity: subtitleIn,
@@ -203,21 +215,21 @@ export const LowerThird: React.FC<LowerThirdProps> = ({
           container: {
             ...base,
             background: `linear-gradient(90deg, ${backgroundColor}, transparent)`,
-            padding: "12px 40px 12px 20px",
-            borderLeft: `4px solid ${color}`,
+            padding: `${scale(12)}px ${scale(40)}px ${scale(12)}px ${scale(20)}px`,
+            borderLeft: `${scale(4)}px solid ${color}`,
             opacity: slideIn,
-            transform: `translateX(${(1 - slideIn) * -40}px)`,
+            transform: `translateX(${scale((1 - slideIn) * -40)}px)`,
           },
           title: {
-            fontSize: titleSize,
+            fontSize: scale(titleSize),
             fontWeight: 700 as const,
             color: textColor,
           },
           subtitle: {
-            fontSize: subtitleSize,
+            fontSize: scale(subtitleSize),
             fontWeight: 400 as const,
             color: `${textColor}BB`,
-            marginTop: 2,
+            marginTop: scale(2),
             opacity: subtitleIn,
           },
           accent: { display: "none" as const },
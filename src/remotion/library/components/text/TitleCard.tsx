@@ -1,5 +1,6 @@
 import React from "react";
 import { useCurrentFrame, useVideoConfig, interpolate, Easing } from "remotion";
+import { useLayout } from "../../hooks/useLayout";
 
 export type TitleCardStyle =
   | "minimal"
@@ -20,9 +21,9 @@ export interface TitleCardProps {
   duration?: number;
   /** Delay before animation in seconds */
   delay?: number;
-  /** Title font size in pixels */
+  /** Title font size in design pixels (scaled with the layout unit) */
   titleFontSize?: number;
-  /** Subtitle font size in pixels */
+  /** Subtitle font size in design pixels (scaled with the layout unit) */
   subtitleFontSize?: number;
   /** Title text color */
   titleColor?: string;
@@ -523,6 +524,9 @@ function renderReveal(
   );
 }
 
+// Portrait frames are narrow, so titles shrink to keep lines from wrapping
+const PORTRAIT_FONT_SCALE = 0.8;
+
 // ---------------------------------------------------------------------------
 // Main component
 // ---------------------------------------------------------------------------
@@ -530,7 +534,8 @@ function renderReveal(
 /**
  * Professional title card animation component with multiple distinct styles.
  * Each style uses clip-path, transform, and opacity animations driven by
- * Remotion's deterministic `interpolate`.
+ * Remotion's deterministic `interpolate`. Font sizes adapt to the
+ * composition through `useLayout`.
  *
  * @example
  * <TitleCard title="CHAPTER ONE" subtitle="The Beginning" titleStyle="cinematic" accentColor="#E63946" />
@@ -553,6 +558,8 @@ export const TitleCard: React.FC<TitleCardProps> = ({
 }) => {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const { scale, select } = useLayout();
+  const fontScale = select({ landscape: 1, portrait: PORTRAIT_FONT_SCALE });
 
   const delayFrames = Math.round(delay * fps);
   const durationFrames = Math.max(1, Math.round(duration * fps));
@@ -573,8 +580,8 @@ export const TitleCard: React.FC<TitleCardProps> = ({
   );
 
   const sharedProps = {
-    titleFontSize,
-    subtitleFontSize,
+    titleFontSize: scale(titleFontSize * fontScale),
+    subtitleFontSize: scale(subtitleFontSize * fontScale),
     titleColor,
     subtitleColor,
     accentColor,
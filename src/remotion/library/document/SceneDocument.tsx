@@ -0,0 +1,104 @@
+import React, { useMemo } from "react";
+import { AbsoluteFill, Sequence, useVideoConfig } from "remotion";
+import { SceneSequence, type SceneSequenceItem } from "../components/layout";
+import { defaultComponentRegistry, type ComponentRegistry } from "./registry";
+import {
+  assertSceneDocument,
+  toDurationInFrames,
+  toSceneSequenceItems,
+  type SceneData,
+  type SceneDocumentData,
+  type SceneLayerData,
+} from "./sceneDocument";
+
+export type SceneDocumentProps = {
+  /** The document to render, usually parsed from JSON */
+  document: SceneDocumentData;
+  /** Components the document can reference (default: the whole library) */
+  registry?: ComponentRegistry;
+};
+
+const toFrames = (seconds: number, fps: number) => Math.round(seconds * fps);
+
+const Layer: React.FC<{
+  layer: SceneLayerData;
+  registry: ComponentRegistry;
+  isNested: boolean;
+}> = ({ layer, registry, isNested }) => {
+  const { fps } = useVideoConfig();
+  const Component = registry[layer.component];
+
+  const children = layer.layers?.map((child, i) => (
+    <Layer key={i} layer={child} registry={registry} isNested />
+  ));
+  const element = <Component {...layer.props}>{children}</Component>;
+
+  if (layer.at === undefined && layer.duration === undefined) return element;
+
+  // Nested layers keep the parent's layout instead of filling the frame
+  return (
+    <Sequence
+      from={toFrames(layer.at ?? 0, fps)}
+      durationInFrames={
+        layer.duration === undefined ? undefined : toDurationInFrames(layer.duration, fps)
+      }
+      layout={isNested ? "none" : "absolute-fill"}
+    >
+      {element}
+    </Sequence>
+  );
+};
+
+const Scene: React.FC<{ scene: SceneData; registry: ComponentRegistry }> = ({
+  scene,
+  registry,
+}) => (
+  <AbsoluteFill style={{ background: scene.background }}>
+    {scene.layers.map((layer, i) => (
+      <AbsoluteFill key={i}>
+        <Layer layer={layer} registry={registry} isNested={false} />
+      </AbsoluteFill>
+    ))}
+  </AbsoluteFill>
+);
+
+/**
+ * Render a video described as data. Each scene becomes a `SceneSequence`
+ * scene, each layer a registry component with its props, and scene
+ * transitions are looked up by `TransitionType` name.
+ *
+ * The document is validated before rendering; an invalid document throws
+ * an error listing the path of every problem. Scenes are published to a
+ * surrounding `SequenceReportContext`, like `SceneSequence`.
+ *
+ * @example
+ * import doc from "./launch.json";
+ *
+ * <Composition
+ *   id="Launch"
+ *   component={SceneDocument}
+ *   defaultProps={{ document: doc }}
+ *   durationInFrames={getSceneDocumentDuration(doc, 30)}
+ *   fps={30}
+ *   width={1920}
+ *   height={1080}
+ * />
+ */
+export const SceneDocument: React.FC<SceneDocumentProps> = ({
+  document,
+  registry = defaultComponentRegistry,
+}) => {
+  const { fps } = useVideoConfig();
+
+  const scenes = useMemo((): SceneSequenceItem[] => {
+    assertSceneDocument(document, registry);
+    return toSceneSequenceItems(document, fps).map((item, i) => ({
+      ...item,
+      children: <Scene scene={document.scenes[i]} registry={registry} />,
+    }));
+  }, [document, registry, fps]);
+
+  return <SceneSequence scenes={scenes} />;
+};
+
+export default SceneDocument;
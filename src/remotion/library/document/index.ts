@@ -0,0 +1,20 @@
+/**
+ * Scene document barrel export.
+ */
+
+export { SceneDocument, type SceneDocumentProps } from "./SceneDocument";
+export {
+  validateSceneDocument,
+  assertSceneDocument,
+  getSceneDocumentDuration,
+  type SceneDocumentData,
+  type SceneData,
+  type SceneLayerData,
+  type SceneTransitionData,
+  type SceneDocumentIssue,
+} from "./sceneDocument";
+export {
+  defaultComponentRegistry,
+  createComponentRegistry,
+  type ComponentRegistry,
+} from "./registry";
@@ -0,0 +1,45 @@
+import { AbsoluteFill, Img, OffthreadVideo } from "remotion";
+import * as components from "../components";
+
+/**
+ * Components a scene document can reference, by name.
+ */
+export type ComponentRegistry = Record<string, React.ComponentType<Record<string, unknown>>>;
+
+// Components with any props. Document props come from JSON and are only
+// known at render time, so a registry accepts components whatever their props
+type RegistrableComponents = Record<string, React.ComponentType<never>>;
+
+const toRegistry = (entries: RegistrableComponents) => entries as ComponentRegistry;
+
+// Components are functions or memo/forwardRef objects named in PascalCase
+const isComponentExport = ([name, value]: [string, unknown]) =>
+  /^[A-Z][a-z]/.test(name) &&
+  (typeof value === "function" || (typeof value === "object" && value !== null && "$$typeof" in value));
+
+/**
+ * Every library component under its export name, plus Remotion's
+ * `AbsoluteFill`, `Img` and `OffthreadVideo`.
+ */
+export const defaultComponentRegistry: ComponentRegistry = toRegistry({
+  ...(Object.fromEntries(
+    Object.entries(components).filter(isComponentExport),
+  ) as RegistrableComponents),
+  AbsoluteFill,
+  Img,
+  OffthreadVideo,
+});
+
+/**
+ * Extend the default registry with project components.
+ *
+ * @example
+ * const registry = createComponentRegistry({ PriceTag, ProductShot });
+ * <SceneDocument document={doc} registry={registry} />
+ */
+export function createComponentRegistry(
+  extra: RegistrableComponents,
+  base: ComponentRegistry = defaultComponentRegistry,
+): ComponentRegistry {
+  return { ...base, ...toRegistry(extra) };
+}
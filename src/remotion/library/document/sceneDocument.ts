@@ -0,0 +1,310 @@
+import {
+  TIMING_TYPES,
+  TRANSITION_TYPES,
+  getSceneSequenceDuration,
+  type SceneSequenceItem,
+  type TimingType,
+  type TransitionSpec,
+  type TransitionType,
+} from "../components/layout";
+import { defaultComponentRegistry, type ComponentRegistry } from "./registry";
+
+/**
+ * A library component placed in a scene.
+ */
+export type SceneLayerData = {
+  /** Name of the component in the registry, e.g. "TitleCard" */
+  component: string;
+  /** Props passed to the component */
+  props?: Record<string, unknown>;
+  /** Start within the scene in seconds (default: 0) */
+  at?: number;
+  /** Duration in seconds (default: until the end of the scene) */
+  duration?: number;
+  /** Layers rendered as the component's children */
+  layers?: SceneLayerData[];
+};
+
+/**
+ * Transition from a scene into the next one: a transition type with its
+ * options, e.g. `{ "type": "flash", "color": "#f00", "duration": 0.5 }`.
+ */
+export type SceneTransitionData = Extract<TransitionSpec, object> & {
+  /** Duration in seconds. Overlaps both scenes */
+  duration: number;
+  /** Timing curve (default: "linear") */
+  timing?: TimingType;
+};
+
+/**
+ * One scene of a document.
+ */
+export type SceneData = {
+  /** Identifier shown in the preview timeline */
+  id?: string;
+  /** Duration in seconds, including the transitions in and out */
+  duration: number;
+  /** CSS background of the scene */
+  background?: string;
+  /** Layers from back to front */
+  layers: SceneLayerData[];
+  /** Transition into the next scene */
+  transition?: SceneTransitionData;
+};
+
+/**
+ * A video described as data.
+ *
+ * @example
+ * {
+ *   "scenes": [
+ *     {
+ *       "duration": 3,
+ *       "layers": [{ "component": "TitleCard", "props": { "title": "Hello" } }],
+ *       "transition": { "type": "blurDissolve", "duration": 0.5 }
+ *     },
+ *     { "duration": 3, "layers": [{ "component": "Particles" }] }
+ *   ]
+ * }
+ */
+export type SceneDocumentData = {
+  scenes: SceneData[];
+};
+
+/**
+ * A problem found in a document, located by its path,
+ * e.g. `scenes[1].layers[0].component`.
+ */
+export interface SceneDocumentIssue {
+  path: string;
+  message: string;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isPositive = (value: unknown): value is number =>
+  typeof value === "number" && Number.isFinite(value) && value > 0;
+
+const describe = (value: unknown) =>
+  value === undefined ? "nothing" : JSON.stringify(value);
+
+function validateLayer(
+  layer: unknown,
+  path: string,
+  registry: ComponentRegistry,
+  issues: SceneDocumentIssue[],
+) {
+  if (!isRecord(layer)) {
+    issues.push({ path, message: `expected a layer object, got ${describe(layer)}` });
+    return;
+  }
+
+  if (typeof layer.component !== "string") {
+    issues.push({ path: `${path}.component`, message: "expected a component name" });
+  } else if (!Object.prototype.hasOwnProperty.call(registry, layer.component)) {
+    issues.push({
+      path: `${path}.component`,
+      message: `unknown component "${layer.component}"`,
+    });
+  }
+  if (layer.props !== undefined && !isRecord(layer.props)) {
+    issues.push({ path: `${path}.props`, message: "expected an object" });
+  }
+  if (
+    layer.at !== undefined &&
+    !(typeof layer.at === "number" && Number.isFinite(layer.at) && layer.at >= 0)
+  ) {
+    issues.push({ path: `${path}.at`, message: `expected seconds >= 0, got ${describe(layer.at)}` });
+  }
+  if (layer.duration !== undefined && !isPositive(layer.duration)) {
+    issues.push({
+      path: `${path}.duration`,
+      message: `expected seconds > 0, got ${describe(layer.duration)}`,
+    });
+  }
+  if (layer.layers !== undefined) {
+    if (!Array.isArray(layer.layers)) {
+      issues.push({ path: `${path}.layers`, message: "expected an array of layers" });
+    } else {
+      layer.layers.forEach((child, i) =>
+        validateLayer(child, `${path}.layers[${i}]`, registry, issues),
+      );
+    }
+  }
+}
+
+function validateTransition(
+  transition: unknown,
+  path: string,
+  scene: Record<string, unknown>,
+  next: unknown,
+  issues: SceneDocumentIssue[],
+) {
+  if (!isRecord(transition)) {
+    issues.push({ path, message: `expected a transition object, got ${describe(transition)}` });
+    return;
+  }
+  if (!next) {
+    issues.push({ path, message: "the last scene cannot have a transition" });
+  }
+
+  if (!TRANSITION_TYPES.includes(transition.type as TransitionType)) {
+    issues.push({
+      path: `${path}.type`,
+      message: `unknown transition ${describe(transition.type)}, expected one of ${TRANSITION_TYPES.join(", ")}`,
+    });
+  }
+  if (transition.timing !== undefined && !TIMING_TYPES.includes(transition.timing as TimingType)) {
+    issues.push({
+      path: `${path}.timing`,
+      message: `unknown timing ${describe(transition.timing)}, expected one of ${TIMING_TYPES.join(", ")}`,
+    });
+  }
+  // Anything else is a presentation option, which JSON keeps to primitives
+  for (const [key, value] of Object.entries(transition)) {
+    if (key === "type" || key === "timing" || key === "duration") continue;
+    if (!["number", "string", "boolean"].includes(typeof value)) {
+      issues.push({
+        path: `${path}.${key}`,
+        message: `expected a number, string or boolean option, got ${describe(value)}`,
+      });
+    }
+  }
+  if (!isPositive(transition.duration)) {
+    issues.push({
+      path: `${path}.duration`,
+      message: `expected seconds > 0, got ${describe(transition.duration)}`,
+    });
+    return;
+  }
+
+  // A transition cannot be longer than the scenes it joins
+  const nextDuration = isRecord(next) ? next.duration : undefined;
+  for (const duration of [scene.duration, nextDuration]) {
+    if (isPositive(duration) && transition.duration > duration) {
+      issues.push({
+        path: `${path}.duration`,
+        message: `${transition.duration}s is longer than a scene it joins (${duration}s)`,
+      });
+      break;
+    }
+  }
+}
+
+/**
+ * Check a document, e.g. parsed from JSON, against the registry.
+ *
+ * @returns Every problem found, empty if the document is valid
+ */
+export function validateSceneDocument(
+  document: unknown,
+  registry: ComponentRegistry,
+): SceneDocumentIssue[] {
+  const issues: SceneDocumentIssue[] = [];
+
+  if (!isRecord(document)) {
+    return [{ path: "", message: `expected a document object, got ${describe(document)}` }];
+  }
+  const { scenes } = document;
+  if (!Array.isArray(scenes) || scenes.length === 0) {
+    return [{ path: "scenes", message: "expected a non-empty array of scenes" }];
+  }
+
+  scenes.forEach((scene: unknown, i) => {
+    const path = `scenes[${i}]`;
+    if (!isRecord(scene)) {
+      issues.push({ path, message: `expected a scene object, got ${describe(scene)}` });
+      return;
+    }
+
+    if (scene.id !== undefined && typeof scene.id !== "string") {
+      issues.push({ path: `${path}.id`, message: "expected a string" });
+    }
+    if (!isPositive(scene.duration)) {
+      issues.push({
+        path: `${path}.duration`,
+        message: `expected seconds > 0, got ${describe(scene.duration)}`,
+      });
+    }
+    if (scene.background !== undefined && typeof scene.background !== "string") {
+      issues.push({ path: `${path}.background`, message: "expected a CSS background" });
+    }
+    if (!Array.isArray(scene.layers)) {
+      issues.push({ path: `${path}.layers`, message: "expected an array of layers" });
+    } else {
+      scene.layers.forEach((layer, j) =>
+        validateLayer(layer, `${path}.layers[${j}]`, registry, issues),
+      );
+    }
+    if (scene.transition !== undefined) {
+      validateTransition(
+        scene.transition,
+        `${path}.transition`,
+        scene,
+        scenes[i + 1],
+        issues,
+      );
+    }
+  });
+
+  return issues;
+}
+
+/**
+ * Throw if a document is invalid, listing every problem with its path.
+ */
+export function assertSceneDocument(
+  document: unknown,
+  registry: ComponentRegistry,
+): asserts document is SceneDocumentData {
+  const issues = validateSceneDocument(document, registry);
+  if (issues.length === 0) return;
+
+  const lines = issues.map(({ path, message }) => `  ${path || "(document)"}: ${message}`);
+  throw new Error(`Invalid scene document:\n${lines.join("\n")}`);
+}
+
+/**
+ * Length in frames of a document duration in seconds. Short durations
+ * are kept to at least 1 frame, as Remotion rejects empty sequences.
+ */
+export const toDurationInFrames = (seconds: number, fps: number) =>
+  Math.max(1, Math.round(seconds * fps));
+
+/**
+ * The scenes of a document as `SceneSequence` scenes, with lengths in
+ * frames and without content.
+ */
+export function toSceneSequenceItems(
+  document: SceneDocumentData,
+  fps: number,
+): SceneSequenceItem[] {
+  return document.scenes.map((scene) => {
+    if (!scene.transition) {
+      return { id: scene.id, durationInFrames: toDurationInFrames(scene.duration, fps) };
+    }
+    const { duration, ...transition } = scene.transition;
+    return {
+      id: scene.id,
+      durationInFrames: toDurationInFrames(scene.duration, fps),
+      transition: { ...transition, durationInFrames: toDurationInFrames(duration, fps) },
+    };
+  });
+}
+
+/**
+ * Total length of a document in frames, with transition overlaps
+ * subtracted. Use it as the composition's `durationInFrames`. The document
+ * is validated first, so edited props fail with the same messages as
+ * `assertSceneDocument`, and it throws if a transition cannot fit between
+ * its scenes, like `getSceneSequenceDuration`.
+ */
+export function getSceneDocumentDuration(
+  document: SceneDocumentData,
+  fps: number,
+  registry: ComponentRegistry = defaultComponentRegistry,
+): number {
+  assertSceneDocument(document, registry);
+  return getSceneSequenceDuration(toSceneSequenceItems(document, fps));
+}
@@ -0,0 +1,147 @@
+import type { CalculateMetadataFunction } from "remotion";
+import type { SequenceBeat, SequenceScene } from "./useSequence";
+
+/**
+ * Labels and length of a GSAP timeline, in seconds.
+ */
+export interface TimelineLabels {
+  /** Label name → time in seconds */
+  labels: Record<string, number>;
+  /** Total duration in seconds */
+  duration: number;
+}
+
+/**
+ * Read the labels and duration of a built timeline. Labels already read
+ * are returned as they are.
+ *
+ * The timeline only needs its structure, not its targets: it can be built
+ * outside the DOM, in which case GSAP warns about missing targets but
+ * keeps every duration and label.
+ */
+export function getTimelineLabels(
+  source: gsap.core.Timeline | TimelineLabels,
+): TimelineLabels {
+  if (typeof source.duration === "number") return source as TimelineLabels;
+  const timeline = source as gsap.core.Timeline;
+  return { labels: { ...timeline.labels }, duration: timeline.duration() };
+}
+
+// Labels sorted by time
+const sortLabels = (labels: Record<string, number>) =>
+  Object.entries(labels).sort(([, a], [, b]) => a - b);
+
+/**
+ * Frame of a time in seconds. Rounds, and absorbs the float error of
+ * times like 0.1 + 0.2 so labels land on the frame they were meant for.
+ */
+export const secondsToFrame = (seconds: number, fps: number) =>
+  Math.round(seconds * fps + 1e-9);
+
+/**
+ * Timeline labels as beats for `useSequence`.
+ *
+ * @example
+ * const beats = timelineToBeats(timeline); // [{ id: "impact", at: 1.5 }, ...]
+ */
+export function timelineToBeats(
+  source: gsap.core.Timeline | TimelineLabels,
+): SequenceBeat[] {
+  return sortLabels(getTimelineLabels(source).labels).map(([id, at]) => ({ id, at }));
+}
+
+/**
+ * Timeline labels as scenes for `useSequence`: each label starts a scene
+ * that lasts until the next label, the last one until the timeline ends.
+ *
+ * @example
+ * const scenes = timelineToScenes(timeline);
+ * const { isSceneActive } = useSequence(scenes);
+ */
+export function timelineToScenes(
+  source: gsap.core.Timeline | TimelineLabels,
+): SequenceScene[] {
+  const { labels, duration } = getTimelineLabels(source);
+  const sorted = sortLabels(labels);
+
+  return sorted.map(([id, at], i) => {
+    const end = i + 1 < sorted.length ? sorted[i + 1][1] : duration;
+    return { id, at, duration: Math.max(0, end - at) };
+  });
+}
+
+/**
+ * Start and end frame of a label: from the label to `until`, or to the
+ * next label, or to the end of the timeline. Throws if a label is missing
+ * or `until` does not come after `label`.
+ */
+export function getLabelFrames(
+  source: gsap.core.Timeline | TimelineLabels,
+  label: string,
+  fps: number,
+  until?: string,
+): { from: number; durationInFrames: number } {
+  const { labels, duration } = getTimelineLabels(source);
+  const start = labels[label];
+  if (start === undefined) {
+    throw new Error(
+      `GSAP label "${label}" not found. Labels: ${Object.keys(labels).join(", ") || "none"}`,
+    );
+  }
+
+  let end: number;
+  if (until !== undefined) {
+    end = labels[until];
+    if (end === undefined) {
+      throw new Error(`GSAP label "${until}" not found`);
+    }
+    if (end <= start) {
+      throw new Error(
+        `GSAP label "${until}" (${end}s) must come after label "${label}" (${start}s)`,
+      );
+    }
+  } else {
+    end = sortLabels(labels).find(([, at]) => at > start)?.[1] ?? duration;
+  }
+
+  const from = secondsToFrame(start, fps);
+  return { from, durationInFrames: Math.max(1, secondsToFrame(end, fps) - from) };
+}
+
+/**
+ * Frames needed to play the whole timeline.
+ */
+export function getTimelineDurationInFrames(
+  source: gsap.core.Timeline | TimelineLabels,
+  fps: number,
+): number {
+  return Math.max(1, Math.ceil(getTimelineLabels(source).duration * fps - 1e-9));
+}
+
+/**
+ * Create a `calculateMetadata` function that sizes a composition to the
+ * timeline built from its props, so the video always ends with the
+ * animation.
+ *
+ * @example
+ * defineComposition<TitleProps>({
+ *   id: "Title",
+ *   component: Title,
+ *   durationInFrames: 150,
+ *   fps: 30,
+ *   width: 1920,
+ *   height: 1080,
+ *   calculateMetadata: createGsapMetadata((props) => buildTitleTimeline(props), 30),
+ * });
+ */
+export function createGsapMetadata<Props extends Record<string, unknown>>(
+  buildTimeline: (props: Props) => gsap.core.Timeline,
+  fps: number,
+): CalculateMetadataFunction<Props> {
+  return ({ props }) => {
+    const timeline = buildTimeline(props);
+    const durationInFrames = getTimelineDurationInFrames(timeline, fps);
+    timeline.kill();
+    return { durationInFrames };
+  };
+}
@@ -6,8 +6,14 @@
  */
 
 export * from "./useGsapTimeline";
+export * from "./gsapLabels";
 export * from "./useSpring";
+export * from "./useSpringTrack";
+export * from "./useSpringFollow";
 export * from "./useSequence";
 export * from "./useStagger";
 export * from "./useKeyframes";
 export * from "./useMultiKeyframes";
+export * from "./useKeyframeTrack";
+export * from "./keyframeExpressions";
+export * from "./useLayout";
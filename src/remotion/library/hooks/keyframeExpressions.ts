@@ -0,0 +1,234 @@
+import { noise2D } from "@remotion/noise";
+
+/**
+ * Anything evaluated per frame with keyframes, such as the result of
+ * `compileKeyframes`, `compileTrack` or a modifier.
+ */
+export interface KeyframeTrackLike<V> {
+  /** Keyframes sorted by frame; loops repeat the range they span */
+  keyframes: readonly { frame: number }[];
+  /** Value at a frame, or `defaultValue` when there are no keyframes */
+  evaluate: (frame: number, defaultValue?: V) => V;
+}
+
+/**
+ * Wraps a track with new behavior, like an After Effects expression.
+ * Modifiers compose: the result is a track again.
+ */
+export type KeyframeModifier = <V>(track: KeyframeTrackLike<V>) => KeyframeTrackLike<V>;
+
+/**
+ * How a loop continues past the keyframes.
+ * - `cycle`: repeat the keyframes
+ * - `pingpong`: play them forward, then backward
+ * - `offset`: repeat them, each cycle starting where the last one ended
+ * - `continue`: keep the speed of the last keyframe (first for `loopIn`)
+ */
+export type LoopType = "cycle" | "pingpong" | "offset" | "continue";
+
+const addValues = <V>(value: V, delta: number, label: string): V => {
+  if (typeof value !== "number") {
+    throw new Error(`${label} loops need a numeric track`);
+  }
+  return (value + delta) as V;
+};
+
+/**
+ * Get the frame range repeated by a loop: the last (or first)
+ * `numKeyframes` keyframes, all of them when 0.
+ */
+const getLoopRange = (
+  keyframes: readonly { frame: number }[],
+  numKeyframes: number,
+  side: "in" | "out"
+) => {
+  const count =
+    numKeyframes > 0 ? Math.min(numKeyframes + 1, keyframes.length) : keyframes.length;
+  return side === "out"
+    ? { start: keyframes[keyframes.length - count].frame, end: keyframes[keyframes.length - 1].frame }
+    : { start: keyframes[0].frame, end: keyframes[count - 1].frame };
+};
+
+const loop = (type: LoopType, numKeyframes: number, side: "in" | "out"): KeyframeModifier =>
+  <V>(track: KeyframeTrackLike<V>): KeyframeTrackLike<V> => {
+    if (track.keyframes.length < 2) return track;
+    const { start, end } = getLoopRange(track.keyframes, numKeyframes, side);
+    const duration = end - start;
+    if (duration <= 0) return track;
+
+    const evaluate = (frame: number, defaultValue?: V): V => {
+      const isOutside = side === "out" ? frame > end : frame < start;
+      if (!isOutside) return track.evaluate(frame, defaultValue);
+
+      if (type === "continue") {
+        // Extend the motion with the speed at the edge, measured over one frame
+        const edge = side === "out" ? end : start;
+        const edgeValue = track.evaluate(edge, defaultValue);
+        const speed =
+          (edgeValue as number) -
+          (track.evaluate(side === "out" ? edge - 1 : edge + 1, defaultValue) as number);
+        return addValues(edgeValue, speed * Math.abs(frame - edge), "continue");
+      }
+
+      const cycle = Math.floor((frame - start) / duration);
+      const local = frame - start - cycle * duration;
+
+      if (type === "pingpong") {
+        const isReversed = Math.abs(cycle) % 2 === 1;
+        return track.evaluate(isReversed ? end - local : start + local, defaultValue);
+      }
+
+      const value = track.evaluate(start + local, defaultValue);
+      if (type === "offset") {
+        const delta =
+          (track.evaluate(end, defaultValue) as number) -
+          (track.evaluate(start, defaultValue) as number);
+        return addValues(value, delta * cycle, "offset");
+      }
+      return value;
+    };
+
+    return { keyframes: track.keyframes, evaluate };
+  };
+
+/**
+ * Loop a track after its last keyframe, like After Effects' `loopOut()`.
+ *
+ * @param type How the loop continues (default: "cycle")
+ * @param numKeyframes Loop only the last segments, 0 loops all keyframes
+ *
+ * @example
+ * const bob = useKeyframes(
+ *   [{ frame: 0, value: 0 }, { frame: 15, value: -20 }, { frame: 30, value: 0 }],
+ *   0,
+ *   loopOut("cycle"),
+ * );
+ */
+export function loopOut(type: LoopType = "cycle", numKeyframes: number = 0): KeyframeModifier {
+  return loop(type, numKeyframes, "out");
+}
+
+/**
+ * Loop a track before its first keyframe, like After Effects' `loopIn()`.
+ *
+ * @param type How the loop continues (default: "cycle")
+ * @param numKeyframes Loop only the first segments, 0 loops all keyframes
+ */
+export function loopIn(type: LoopType = "cycle", numKeyframes: number = 0): KeyframeModifier {
+  return loop(type, numKeyframes, "in");
+}
+
+/**
+ * Options for `wiggle`.
+ */
+export interface WiggleOptions {
+  /** Wiggles per second */
+  frequency: number;
+  /** Largest offset added to the value, in its units */
+  amplitude: number;
+  /** Frames per second of the composition */
+  fps: number;
+  /** Noise seed; tracks with the same seed wiggle together (default: "wiggle") */
+  seed?: string;
+  /** Layers of finer noise added on top, as in After Effects (default: 1) */
+  octaves?: number;
+}
+
+/**
+ * Add seeded noise to a track, like After Effects' `wiggle(freq, amp)`.
+ * Works on numbers, number arrays and points, each axis wiggling
+ * independently. The same seed always gives the same motion.
+ *
+ * @example
+ * const { fps } = useVideoConfig();
+ * const rotation = useKeyframes(keyframes, 0, wiggle({ frequency: 2, amplitude: 4, fps }));
+ */
+export function wiggle({
+  frequency,
+  amplitude,
+  fps,
+  seed = "wiggle",
+  octaves = 1,
+}: WiggleOptions): KeyframeModifier {
+  const noiseAt = (frame: number, axis: number) => {
+    const time = (frame / fps) * frequency;
+    let sum = 0;
+    let weight = 1;
+    let total = 0;
+    for (let octave = 0; octave < octaves; octave++) {
+      sum += noise2D(seed, time * 2 ** octave, axis * 100 + octave * 17) * weight;
+      total += weight;
+      weight /= 2;
+    }
+    return (sum / total) * amplitude;
+  };
+
+  const addNoise = (value: unknown, frame: number): unknown => {
+    if (typeof value === "number") return value + noiseAt(frame, 0);
+    if (Array.isArray(value)) {
+      return value.map((v, i) => (typeof v === "number" ? v + noiseAt(frame, i) : v));
+    }
+    if (typeof value === "object" && value !== null && "x" in value && "y" in value) {
+      const point = value as { x: number; y: number; z?: number };
+      return {
+        ...point,
+        x: point.x + noiseAt(frame, 0),
+        y: point.y + noiseAt(frame, 1),
+        ...(point.z !== undefined ? { z: point.z + noiseAt(frame, 2) } : {}),
+      };
+    }
+    throw new Error("wiggle needs a track of numbers, number arrays or points");
+  };
+
+  return <V>(track: KeyframeTrackLike<V>): KeyframeTrackLike<V> => ({
+    keyframes: track.keyframes,
+    evaluate: (frame, defaultValue) =>
+      addNoise(track.evaluate(frame, defaultValue), frame) as V,
+  });
+}
+
+/**
+ * Delay a track by a number of frames, like After Effects'
+ * `valueAtTime(time - offset)`. Negative offsets play it earlier.
+ *
+ * @example
+ * // A follower trailing the leader by 5 frames
+ * const leader = compileKeyframes(keyframes);
+ * const follower = timeOffset(5)(leader);
+ */
+export function timeOffset(frames: number): KeyframeModifier {
+  return <V>(track: KeyframeTrackLike<V>): KeyframeTrackLike<V> => ({
+    keyframes: track.keyframes.map((kf) => ({ ...kf, frame: kf.frame + frames })),
+    evaluate: (frame, defaultValue) => track.evaluate(frame - frames, defaultValue),
+  });
+}
+
+/**
+ * Apply modifiers from left to right.
+ *
+ * @example
+ * const idle = composeModifiers(loopOut("pingpong"), wiggle({ frequency: 1, amplitude: 3, fps }));
+ */
+export function composeModifiers(...modifiers: KeyframeModifier[]): KeyframeModifier {
+  return <V>(track: KeyframeTrackLike<V>) =>
+    modifiers.reduce((result, modifier) => modifier(result), track);
+}
+
+/**
+ * Sample a track at several delays, e.g. to draw motion trails. The first
+ * value is the current one, each next one `spacing` frames older.
+ *
+ * @example
+ * const trail = getEchoes(track, frame, { count: 5, spacing: 2 });
+ * trail.map((x, i) => <Dot key={i} x={x} opacity={1 - i / 5} />);
+ */
+export function getEchoes<V>(
+  track: KeyframeTrackLike<V>,
+  frame: number,
+  { count, spacing }: { count: number; spacing: number },
+  defaultValue?: V
+): V[] {
+  return Array.from({ length: count }, (_, i) =>
+    track.evaluate(frame - i * spacing, defaultValue)
+  );
+}
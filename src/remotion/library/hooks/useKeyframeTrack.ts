@@ -0,0 +1,339 @@
+import { useMemo } from "react";
+import { useCurrentFrame, interpolateColors } from "remotion";
+import { compileKeyframes, CompileKeyframesOptions, Keyframe } from "./useKeyframes";
+
+/**
+ * Blend two keyframe values. `progress` is the eased position in the
+ * segment, usually 0-1 but beyond it when tangents overshoot.
+ */
+export type KeyframeInterpolator<V> = (from: V, to: V, progress: number) => V;
+
+/**
+ * A keyframe holding any kind of value. Easing, tangents (influence only),
+ * `hold`, `autoBezier` and `continuous` behave as for numeric keyframes.
+ */
+export type TrackKeyframe<V> = Omit<Keyframe, "value"> & {
+  value: V;
+};
+
+export type Point = { x: number; y: number; z?: number };
+
+const lerp = (from: number, to: number, progress: number) =>
+  from + (to - from) * progress;
+
+// ---------------------------------------------------------------------------
+// Colors
+
+type Rgba = [number, number, number, number];
+
+/**
+ * Parse any CSS color Remotion understands (hex, rgb(), hsl(), names).
+ */
+const parseColor = (color: string): Rgba => {
+  const rgba = interpolateColors(0, [0, 1], [color, color]);
+  const [r, g, b, a] = rgba.slice(rgba.indexOf("(") + 1, -1).split(",").map(Number);
+  return [r, g, b, a];
+};
+
+const isColor = (value: string) => {
+  try {
+    parseColor(value);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const toLinear = (channel: number) => {
+  const c = channel / 255;
+  return c <= 0.04045 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+};
+
+const fromLinear = (c: number) => {
+  const v = c <= 0.0031308 ? c * 12.92 : 1.055 * c ** (1 / 2.4) - 0.055;
+  return Math.round(Math.max(0, Math.min(1, v)) * 255);
+};
+
+// sRGB to OKLab, see https://bottosson.github.io/posts/oklab/
+const toOklab = ([r, g, b]: Rgba): [number, number, number] => {
+  const lr = toLinear(r);
+  const lg = toLinear(g);
+  const lb = toLinear(b);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return [
+    0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  ];
+};
+
+const fromOklab = ([L, a, b]: [number, number, number]) => {
+  const l = (L + 0.3963377774 * a + 0.2158037573 * b) ** 3;
+  const m = (L - 0.1055613458 * a - 0.0638541728 * b) ** 3;
+  const s = (L - 0.0894841775 * a - 1.291485548 * b) ** 3;
+  return [
+    fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s),
+    fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s),
+    fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s),
+  ];
+};
+
+/**
+ * Blend CSS colors in OKLab, so midpoints keep their brightness instead of
+ * turning muddy as in RGB.
+ */
+const color: KeyframeInterpolator<string> = (from, to, progress) => {
+  const a = parseColor(from);
+  const b = parseColor(to);
+  const labA = toOklab(a);
+  const labB = toOklab(b);
+  const [r, g, bl] = fromOklab([
+    lerp(labA[0], labB[0], progress),
+    lerp(labA[1], labB[1], progress),
+    lerp(labA[2], labB[2], progress),
+  ]);
+  const alpha = Math.max(0, Math.min(1, lerp(a[3], b[3], progress)));
+  return `rgba(${r}, ${g}, ${bl}, ${alpha})`;
+};
+
+// ---------------------------------------------------------------------------
+// Transforms
+
+interface TransformFunction {
+  name: string;
+  args: { value: number; unit: string }[];
+}
+
+const TRANSFORM_FUNCTION = /([a-zA-Z0-9]+)\(([^)]*)\)/g;
+
+const parseTransform = (transform: string): TransformFunction[] =>
+  [...transform.matchAll(TRANSFORM_FUNCTION)].map(([, name, args]) => ({
+    name,
+    args: args
+      .split(/[\s,]+/)
+      .filter(Boolean)
+      .map((arg) => {
+        const match = /^(-?[\d.]+(?:e-?\d+)?)([a-z%]*)$/i.exec(arg);
+        if (!match) throw new Error(`Cannot interpolate transform argument "${arg}"`);
+        return { value: Number(match[1]), unit: match[2] };
+      }),
+  }));
+
+const isTransform = (value: string) => /^\s*([a-zA-Z0-9]+\([^)]*\)\s*)+$/.test(value);
+
+/**
+ * The transform function that does nothing, shaped like `like`.
+ */
+const identityOf = (like: TransformFunction): TransformFunction => ({
+  name: like.name,
+  args: like.args.map(({ unit }) => ({
+    value: like.name.startsWith("scale") ? 1 : 0,
+    unit,
+  })),
+});
+
+/**
+ * Blend CSS transform strings function by function. A function missing on
+ * one side is blended from its identity, e.g. `scale(1)` or `rotate(0deg)`.
+ */
+const transform: KeyframeInterpolator<string> = (from, to, progress) => {
+  const a = parseTransform(from);
+  const b = parseTransform(to);
+  const names = [...new Set([...a, ...b].map((fn) => fn.name))];
+
+  return names
+    .map((name) => {
+      const fnA = a.find((fn) => fn.name === name);
+      const fnB = b.find((fn) => fn.name === name);
+      const start = fnA ?? identityOf(fnB!);
+      const end = fnB ?? identityOf(fnA!);
+      const args = start.args.map((arg, i) => {
+        const value = lerp(arg.value, end.args[i]?.value ?? arg.value, progress);
+        return `${value}${arg.unit || end.args[i]?.unit || ""}`;
+      });
+      return `${name}(${args.join(", ")})`;
+    })
+    .join(" ");
+};
+
+// ---------------------------------------------------------------------------
+// Interpolators
+
+/**
+ * Built-in interpolators for `interpolateTrack` and `useKeyframeTrack`.
+ */
+export const interpolators = {
+  number: lerp as KeyframeInterpolator<number>,
+  color,
+  point: ((from, to, progress) => ({
+    x: lerp(from.x, to.x, progress),
+    y: lerp(from.y, to.y, progress),
+    ...(from.z !== undefined || to.z !== undefined
+      ? { z: lerp(from.z ?? 0, to.z ?? 0, progress) }
+      : {}),
+  })) as KeyframeInterpolator<Point>,
+  numbers: ((from, to, progress) => {
+    if (from.length !== to.length) {
+      throw new Error(
+        `Cannot interpolate arrays of different lengths (${from.length} and ${to.length})`
+      );
+    }
+    return from.map((value, i) => lerp(value, to[i], progress));
+  }) as KeyframeInterpolator<number[]>,
+  transform,
+  /** Keep each value until the next keyframe, for enums and strings */
+  discrete: (<V>(from: V, to: V, progress: number) =>
+    progress >= 1 ? to : from) as <V>(from: V, to: V, progress: number) => V,
+};
+
+/**
+ * Pick an interpolator from the kind of value: numbers, number arrays,
+ * points, CSS colors and transform strings blend, anything else is
+ * discrete.
+ */
+export function inferInterpolator<V>(value: V): KeyframeInterpolator<V> {
+  const pick = (sample: unknown): KeyframeInterpolator<unknown> => {
+    if (typeof sample === "number") return interpolators.number as KeyframeInterpolator<unknown>;
+    if (Array.isArray(sample) && sample.every((v) => typeof v === "number")) {
+      return interpolators.numbers as KeyframeInterpolator<unknown>;
+    }
+    if (
+      typeof sample === "object" &&
+      sample !== null &&
+      typeof (sample as Point).x === "number" &&
+      typeof (sample as Point).y === "number"
+    ) {
+      return interpolators.point as KeyframeInterpolator<unknown>;
+    }
+    if (typeof sample === "string") {
+      // rgb() and hsl() look like transforms, so test colors first
+      if (isColor(sample)) return interpolators.color as KeyframeInterpolator<unknown>;
+      if (isTransform(sample)) return interpolators.transform as KeyframeInterpolator<unknown>;
+    }
+    return interpolators.discrete;
+  };
+  return pick(value) as KeyframeInterpolator<V>;
+}
+
+/**
+ * A keyframe track sorted and checked once, see `compileKeyframes`.
+ */
+export interface CompiledTrack<V> {
+  /** Keyframes sorted by frame */
+  keyframes: readonly TrackKeyframe<V>[];
+  /** Value at a frame, or `defaultValue` when the track is empty */
+  evaluate: (frame: number, defaultValue?: V) => V;
+}
+
+/**
+ * Sort and validate a track once so it can be evaluated at every frame
+ * with a binary search.
+ *
+ * Timing is resolved on the keyframe indices, so tangent speeds are in
+ * keyframes per frame; influence, easing and hold work as usual.
+ *
+ * @param keyframes Keyframes of the track
+ * @param interpolator How to blend two values (default: inferred from the first value)
+ * @param options Options passed to `compileKeyframes`
+ */
+export function compileTrack<V>(
+  keyframes: TrackKeyframe<V>[],
+  interpolator?: KeyframeInterpolator<V>,
+  options?: CompileKeyframesOptions
+): CompiledTrack<V> {
+  const sorted = [...keyframes].sort((a, b) => a.frame - b.frame);
+  const mix = interpolator ?? (sorted.length > 0 ? inferInterpolator(sorted[0].value) : undefined);
+
+  // Ease the keyframe index with the numeric rules, then blend the segment
+  const timing = compileKeyframes(
+    sorted.map((kf, i) => ({ ...kf, value: i })),
+    options
+  );
+
+  const evaluate = (frame: number, defaultValue?: V): V => {
+    if (sorted.length === 0 || !mix) {
+      if (defaultValue === undefined) {
+        throw new Error("Cannot interpolate an empty track without a default value");
+      }
+      return defaultValue;
+    }
+
+    const position = timing.evaluate(frame);
+    if (frame <= sorted[0].frame) return sorted[0].value;
+    if (frame >= sorted[sorted.length - 1].frame) return sorted[sorted.length - 1].value;
+
+    // The segment comes from the frame: overshooting tangents move the
+    // position outside of it
+    let index = Math.min(Math.max(Math.floor(position), 0), sorted.length - 2);
+    while (index > 0 && frame < sorted[index].frame) index--;
+    while (index < sorted.length - 2 && frame >= sorted[index + 1].frame) index++;
+
+    const progress = position - index;
+    if (progress === 0) return sorted[index].value;
+    return mix(sorted[index].value, sorted[index + 1].value, progress);
+  };
+
+  return { keyframes: sorted, evaluate };
+}
+
+/**
+ * Interpolate a track of keyframes holding any kind of value, with the
+ * same timing rules as `interpolateKeyframes`.
+ *
+ * @param frame The current frame number
+ * @param keyframes Keyframes of the track
+ * @param interpolator How to blend two values (default: inferred from the first value)
+ * @param defaultValue Fallback value if the track is empty
+ *
+ * @example
+ * interpolateTrack(frame, [
+ *   { frame: 0, value: "#0ea5e9" },
+ *   { frame: 30, value: "#f97316", easing: Easing.inOut(Easing.cubic) },
+ * ]);
+ */
+export function interpolateTrack<V>(
+  frame: number,
+  keyframes: TrackKeyframe<V>[],
+  interpolator?: KeyframeInterpolator<V>,
+  defaultValue?: V
+): V {
+  return compileTrack(keyframes, interpolator).evaluate(frame, defaultValue);
+}
+
+/**
+ * Hook to animate a value of any kind with keyframes: colors, points,
+ * number arrays, transforms or discrete values.
+ *
+ * @param keyframes Keyframes of the track, compiled again whenever the array changes
+ * @param interpolator How to blend two values (default: inferred from the first value)
+ * @param defaultValue Fallback value if the track is empty
+ * @returns The interpolated value for the current frame
+ *
+ * @example
+ * const background = useKeyframeTrack([
+ *   { frame: 0, value: "#0f172a" },
+ *   { frame: 45, value: "hsl(280, 70%, 40%)" },
+ * ]);
+ * const position = useKeyframeTrack([
+ *   { frame: 0, value: { x: 0, y: 0 } },
+ *   { frame: 30, value: { x: 400, y: 120 }, inTangent: { influence: 80 } },
+ * ]);
+ * const transform = useKeyframeTrack([
+ *   { frame: 0, value: "translateX(-100px) rotate(-10deg)" },
+ *   { frame: 20, value: "translateX(0px) rotate(0deg) scale(1.1)" },
+ * ]);
+ */
+export function useKeyframeTrack<V>(
+  keyframes: TrackKeyframe<V>[],
+  interpolator?: KeyframeInterpolator<V>,
+  defaultValue?: V
+): V {
+  const frame = useCurrentFrame();
+  const track = useMemo(
+    () => compileTrack(keyframes, interpolator),
+    [keyframes, interpolator]
+  );
+  return track.evaluate(frame, defaultValue);
+}
@@ -1,4 +1,16 @@
+import { useMemo } from "react";
 import { useCurrentFrame, interpolate, Easing } from "remotion";
+import type { KeyframeModifier } from "./keyframeExpressions";
+
+/**
+ * Temporal tangent of a keyframe, like After Effects' keyframe velocity.
+ */
+export interface KeyframeTangent {
+  /** Speed at the keyframe, in value units per frame (default: 0, an ease) */
+  speed?: number;
+  /** How far the handle reaches into the segment, in percent (default: 33.33) */
+  influence?: number;
+}
 
 export interface Keyframe {
   /** Frame number where this value applies */
@@ -7,82 +19,309 @@ export interface Keyframe {
   value: number;
   /** Easing function to use when approaching this keyframe from the previous one */
   easing?: (t: number) => number;
+  /** Tangent approaching this keyframe. Takes precedence over `easing` */
+  inTangent?: KeyframeTangent;
+  /** Tangent leaving this keyframe */
+  outTangent?: KeyframeTangent;
+  /** Keep this value until the next keyframe instead of interpolating */
+  hold?: boolean;
+  /**
+   * Pass through this keyframe at the speed given by its neighbours, like
+   * After Effects' auto-bezier. Explicit tangent speeds win.
+   */
+  autoBezier?: boolean;
+  /**
+   * Use the same speed on both sides of this keyframe, so the motion has
+   * no velocity jump. Mirrors whichever tangent has a speed, or behaves
+   * like `autoBezier` when neither has one.
+   */
+  continuous?: boolean;
 }
 
+/** Influence used when a tangent does not set one, as in After Effects */
+export const DEFAULT_INFLUENCE = 100 / 3;
+
+const isSmooth = (kf: Keyframe) => kf.autoBezier === true || kf.continuous === true;
+
+// Whether the segment between two keyframes is a temporal bezier
+const hasTangents = (from: Keyframe, to: Keyframe) =>
+  from.outTangent !== undefined ||
+  to.inTangent !== undefined ||
+  isSmooth(from) ||
+  isSmooth(to);
+
 /**
- * Interpolates a value across a set of keyframes, similar to After Effects.
- * Allows different easings between different keyframes.
- *
- * @param frame The current frame number
- * @param keyframes Array of keyframes (must have at least one)
- * @param defaultValue Fallback value if keyframes array is empty
+ * Speed of a keyframe on one side, in value units per frame.
+ * `side` is "in" for the segment ending at `sorted[index]`, "out" for the
+ * segment starting there.
  */
-export const interpolateKeyframes = (
+const getSpeed = (sorted: Keyframe[], index: number, side: "in" | "out"): number => {
+  const kf = sorted[index];
+  const own = side === "in" ? kf.inTangent : kf.outTangent;
+  const other = side === "in" ? kf.outTangent : kf.inTangent;
+
+  if (own?.speed !== undefined) return own.speed;
+  if (kf.continuous && other?.speed !== undefined) return other.speed;
+
+  // Continuous without a speed on either side smooths like auto-bezier
+  if (kf.autoBezier || kf.continuous) {
+    const prev = sorted[index - 1];
+    const next = sorted[index + 1];
+    if (!prev || !next) return 0;
+    return (next.value - prev.value) / (next.frame - prev.frame);
+  }
+
+  if (own) return 0;
+
+  // No tangent on this side: behave like a straight line through the segment
+  const neighbour = side === "in" ? sorted[index - 1] : sorted[index + 1];
+  return (neighbour.value - kf.value) / (neighbour.frame - kf.frame);
+};
+
+const getInfluence = (tangent: KeyframeTangent | undefined) =>
+  Math.max(0, Math.min(100, tangent?.influence ?? DEFAULT_INFLUENCE)) / 100;
+
+/**
+ * Evaluate the temporal bezier between two keyframes, built from the
+ * speed and influence of each side like an After Effects graph.
+ */
+const interpolateBezierSegment = (
   frame: number,
-  keyframes: Keyframe[],
-  defaultValue: number = 0
+  sorted: Keyframe[],
+  index: number
 ): number => {
-  if (!keyframes || keyframes.length === 0) return defaultValue;
-  
+  const from = sorted[index];
+  const to = sorted[index + 1];
+  const duration = to.frame - from.frame;
+
+  const outInfluence = getInfluence(from.outTangent);
+  const inInfluence = getInfluence(to.inTangent);
+
+  // Control points in (time, value), time normalized to 0-1
+  const x1 = outInfluence;
+  const x2 = 1 - inInfluence;
+  const y0 = from.value;
+  const y1 = from.value + getSpeed(sorted, index, "out") * outInfluence * duration;
+  const y2 = to.value - getSpeed(sorted, index + 1, "in") * inInfluence * duration;
+  const y3 = to.value;
+
+  const bezier = (p0: number, p1: number, p2: number, p3: number, u: number) => {
+    const v = 1 - u;
+    return v * v * v * p0 + 3 * v * v * u * p1 + 3 * v * u * u * p2 + u * u * u * p3;
+  };
+
+  // With both handles inside the segment, time is monotonic in u
+  const t = (frame - from.frame) / duration;
+  let low = 0;
+  let high = 1;
+  let u = t;
+  for (let i = 0; i < 30; i++) {
+    const x = bezier(0, x1, x2, 1, u);
+    if (Math.abs(x - t) < 1e-6) break;
+    if (x < t) low = u;
+    else high = u;
+    u = (low + high) / 2;
+  }
+
+  return bezier(y0, y1, y2, y3, u);
+};
+
+/**
+ * Keyframes sorted and checked once, evaluated with a binary search.
+ * Build it with `compileKeyframes` and reuse it across frames.
+ */
+export interface CompiledKeyframes {
+  /** Keyframes sorted by frame */
+  keyframes: readonly Keyframe[];
+  /** Value at a frame, or `defaultValue` when there are no keyframes */
+  evaluate: (frame: number, defaultValue?: number) => number;
+}
+
+export interface CompileKeyframesOptions {
+  /** Easing of segments without an easing or tangents (default: linear) */
+  defaultEasing?: (t: number) => number;
+  /** Name of the animated property in error messages, e.g. "Camera x" */
+  label?: string;
+}
+
+const isFiniteOrUndefined = (value: number | undefined) =>
+  value === undefined || Number.isFinite(value);
+
+/**
+ * Describe every problem in a sorted keyframe list.
+ */
+const findKeyframeProblems = (sorted: Keyframe[]): string[] => {
+  const problems: string[] = [];
+
+  sorted.forEach((kf) => {
+    if (!Number.isFinite(kf.frame)) {
+      problems.push(`frame ${kf.frame} is not a finite number`);
+      return;
+    }
+    if (!Number.isFinite(kf.value)) {
+      problems.push(`value ${kf.value} at frame ${kf.frame} is not a finite number`);
+    }
+    for (const tangent of [kf.inTangent, kf.outTangent]) {
+      if (tangent && !(isFiniteOrUndefined(tangent.speed) && isFiniteOrUndefined(tangent.influence))) {
+        problems.push(`tangent at frame ${kf.frame} has a non-finite speed or influence`);
+      }
+    }
+  });
+
+  return problems;
+};
+
+/**
+ * Index of the segment containing `frame`, i.e. the last keyframe at or
+ * before it, so of keyframes sharing a frame the last one applies. Expects `frames[0] <= frame < frames[frames.length - 1]`.
+ */
+const findSegment = (frames: number[], frame: number) => {
+  let low = 0;
+  let high = frames.length - 1;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (frames[mid] <= frame) low = mid;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Sort and validate keyframes once, so evaluating them per frame is a
+ * binary search instead of a sort and a scan. Throws if a frame, value or
+ * tangent is not a finite number. Two keyframes on the same frame make
+ * the value jump there, from the first to the second.
+ *
+ * @example
+ * const track = useMemo(() => compileKeyframes(keyframes), [keyframes]);
+ * const value = track.evaluate(frame);
+ */
+export function compileKeyframes(
+  keyframes: Keyframe[],
+  options: CompileKeyframesOptions = {}
+): CompiledKeyframes {
+  const { defaultEasing = Easing.linear, label } = options;
+
   // Sort keyframes by frame to ensure correct order
   const sorted = [...keyframes].sort((a, b) => a.frame - b.frame);
 
-  // 1. Handle before first keyframe
-  if (frame <= sorted[0].frame) {
-    return sorted[0].value;
+  const problems = findKeyframeProblems(sorted);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid keyframes${label ? ` for ${label}` : ""}: ${problems.join("; ")}`
+    );
   }
 
-  // 2. Handle after last keyframe
-  if (frame >= sorted[sorted.length - 1].frame) {
-    return sorted[sorted.length - 1].value;
-  }
+  const frames = sorted.map((kf) => kf.frame);
+  const first = sorted[0];
+  const last = sorted[sorted.length - 1];
 
-  // 3. Find the segment we are currently in
-  let prevKf = sorted[0];
-  let nextKf = sorted[1];
+  const evaluate = (frame: number, defaultValue: number = 0): number => {
+    if (sorted.length === 0) return defaultValue;
 
-  for (let i = 0; i < sorted.length - 1; i++) {
-    if (frame >= sorted[i].frame && frame < sorted[i + 1].frame) {
-      prevKf = sorted[i];
-      nextKf = sorted[i + 1];
-      break;
+    // 1. Handle before first keyframe
+    if (frame <= first.frame) {
+      return first.value;
+    }
+
+    // 2. Handle after last keyframe
+    if (frame >= last.frame) {
+      return last.value;
     }
-  }
 
-  // 4. Interpolate between the two keyframes
-  // Use the easing of the target keyframe (standard convention)
-  const easing = nextKf.easing || Easing.linear;
-
-  return interpolate(
-    frame,
-    [prevKf.frame, nextKf.frame],
-    [prevKf.value, nextKf.value],
-    {
-      easing,
-      extrapolateLeft: "clamp",
-      extrapolateRight: "clamp",
+    // 3. Find the segment we are currently in
+    const index = findSegment(frames, frame);
+    const prevKf = sorted[index];
+    const nextKf = sorted[index + 1];
+
+    // 4. Interpolate between the two keyframes
+    if (prevKf.hold) {
+      return prevKf.value;
+    }
+
+    if (hasTangents(prevKf, nextKf)) {
+      return interpolateBezierSegment(frame, sorted, index);
     }
-  );
+
+    // Use the easing of the target keyframe (standard convention)
+    const easing = nextKf.easing || defaultEasing;
+
+    return interpolate(
+      frame,
+      [prevKf.frame, nextKf.frame],
+      [prevKf.value, nextKf.value],
+      {
+        easing,
+        extrapolateLeft: "clamp",
+        extrapolateRight: "clamp",
+      }
+    );
+  };
+
+  return { keyframes: sorted, evaluate };
+}
+
+/**
+ * Interpolates a value across a set of keyframes, similar to After Effects.
+ * Allows different easings between different keyframes.
+ *
+ * Segments are interpolated, in order of precedence:
+ * - `hold` on the starting keyframe: the value jumps at the next keyframe.
+ * - Tangents, `autoBezier` or `continuous` on either keyframe: a temporal
+ *   bezier. A side without a tangent keeps the linear speed of the segment.
+ * - Otherwise the `easing` of the ending keyframe, linear by default.
+ *
+ * Compiles the keyframes on every call; when evaluating the same keyframes
+ * at many frames, compile them once with `compileKeyframes`.
+ *
+ * @param frame The current frame number
+ * @param keyframes Array of keyframes (must have at least one)
+ * @param defaultValue Fallback value if keyframes array is empty
+ *
+ * @example
+ * // Ease out of the first keyframe, overshoot into the second
+ * interpolateKeyframes(frame, [
+ *   { frame: 0, value: 0, outTangent: { influence: 80 } },
+ *   { frame: 30, value: 100, inTangent: { speed: -4, influence: 40 } },
+ * ]);
+ */
+export const interpolateKeyframes = (
+  frame: number,
+  keyframes: Keyframe[],
+  defaultValue: number = 0
+): number => {
+  if (!keyframes || keyframes.length === 0) return defaultValue;
+  return compileKeyframes(keyframes).evaluate(frame, defaultValue);
 };
 
 /**
  * Hook to use keyframe-based animation for a single value.
  *
- * @param keyframes Array of keyframes
+ * @param keyframes Array of keyframes, compiled again whenever the array changes
  * @param defaultValue Optional default value
+ * @param modifier Optional expression applied to the track, e.g. `loopOut("cycle")`
  * @returns The interpolated value for the current frame
  *
  * @example
  * const opacity = useKeyframes([
  *   { frame: 0, value: 0 },
  *   { frame: 30, value: 1, easing: Easing.out(Easing.cubic) },
+ *   { frame: 45, value: 1, hold: true },
  *   { frame: 60, value: 0 }
  * ]);
+ *
+ * const float = useKeyframes(
+ *   [{ frame: 0, value: 0 }, { frame: 30, value: -12, autoBezier: true }, { frame: 60, value: 0 }],
+ *   0,
+ *   loopOut("cycle")
+ * );
  */
 export const useKeyframes = (
   keyframes: Keyframe[],
-  defaultValue: number = 0
+  defaultValue: number = 0,
+  modifier?: KeyframeModifier
 ) => {
   const frame = useCurrentFrame();
-  return interpolateKeyframes(frame, keyframes, defaultValue);
+  const track = useMemo(() => compileKeyframes(keyframes), [keyframes]);
+  return (modifier ? modifier(track) : track).evaluate(frame, defaultValue);
 };
@@ -0,0 +1,121 @@
+import { createContext, useContext, useMemo } from "react";
+import { useVideoConfig } from "remotion";
+
+/**
+ * Orientation of the frame.
+ */
+export type Orientation = "landscape" | "portrait" | "square";
+
+/**
+ * Short edge, in pixels, at which one layout unit equals one pixel.
+ * 1920x1080, 1080x1920 and 1080x1080 all have a unit of 1.
+ */
+export const DEFAULT_REFERENCE_SIZE = 1080;
+
+// Aspect ratios within this distance of 1 count as square
+const SQUARE_TOLERANCE = 0.05;
+
+/**
+ * Overrides for the layout of a subtree.
+ */
+export interface LayoutOverrides {
+  /** Width of the layout area (defaults to the composition width) */
+  width?: number;
+  /** Height of the layout area (defaults to the composition height) */
+  height?: number;
+  /** Short edge at which the unit is 1 (default: 1080) */
+  referenceSize?: number;
+}
+
+/**
+ * Hook return type for useLayout.
+ */
+export interface Layout {
+  /** Width of the layout area in pixels */
+  width: number;
+  /** Height of the layout area in pixels */
+  height: number;
+  /** Width divided by height */
+  aspectRatio: number;
+  /** Orientation of the layout area */
+  orientation: Orientation;
+  /** Pixels per design pixel. 1 when the short edge equals the reference size */
+  unit: number;
+  /** Convert design pixels to pixels */
+  scale: (designPixels: number) => number;
+  /** Pick a value by orientation. Missing entries fall back to `landscape` */
+  select: <T>(values: { landscape: T; portrait?: T; square?: T }) => T;
+}
+
+export const LayoutContext = createContext<LayoutOverrides | null>(null);
+
+export interface LayoutProviderProps extends LayoutOverrides {
+  children: React.ReactNode;
+}
+
+/**
+ * Override the layout seen by `useLayout` in a subtree, e.g. to lay out a
+ * split-screen pane as its own portrait frame.
+ *
+ * @example
+ * <LayoutProvider width={960} height={1080}>
+ *   <LowerThird title="Left pane" />
+ * </LayoutProvider>
+ */
+export const LayoutProvider: React.FC<LayoutProviderProps> = ({
+  children,
+  ...overrides
+}) => {
+  const parent = useContext(LayoutContext);
+  const value = useMemo(
+    () => ({ ...parent, ...overrides }),
+    [parent, overrides.width, overrides.height, overrides.referenceSize],
+  );
+  return <LayoutContext.Provider value={value}>{children}</LayoutContext.Provider>;
+};
+
+/**
+ * Get the orientation of a frame.
+ */
+export function getOrientation(width: number, height: number): Orientation {
+  const aspectRatio = width / height;
+  if (Math.abs(aspectRatio - 1) <= SQUARE_TOLERANCE) return "square";
+  return aspectRatio > 1 ? "landscape" : "portrait";
+}
+
+/**
+ * Responsive layout information for the current composition.
+ *
+ * Components express sizes in design pixels, authored for a 1080px short
+ * edge, and convert them with `scale`. The same component then keeps its
+ * proportions at 16:9, 9:16, 1:1 and at other resolutions.
+ *
+ * @example
+ * const { scale, select } = useLayout();
+ * const fontSize = scale(48);
+ * const bottom = select({ landscape: scale(80), portrait: scale(400) });
+ */
+export function useLayout(): Layout {
+  const config = useVideoConfig();
+  const overrides = useContext(LayoutContext);
+
+  const width = overrides?.width ?? config.width;
+  const height = overrides?.height ?? config.height;
+  const referenceSize = overrides?.referenceSize ?? DEFAULT_REFERENCE_SIZE;
+
+  return useMemo(() => {
+    const orientation = getOrientation(width, height);
+    const unit = Math.min(width, height) / referenceSize;
+
+    return {
+      width,
+      height,
+      aspectRatio: width / height,
+      orientation,
+      unit,
+      scale: (designPixels: number) => designPixels * unit,
+      select: <T,>(values: { landscape: T; portrait?: T; square?: T }): T =>
+        values[orientation] ?? values.landscape,
+    };
+  }, [width, height, referenceSize]);
+}
@@ -1,56 +1,171 @@
+import { useMemo } from "react";
 import { useCurrentFrame } from "remotion";
-import { interpolateKeyframes, Keyframe } from "./useKeyframes";
+import { compileKeyframes, Keyframe, KeyframeTangent } from "./useKeyframes";
+import { compileTrack, type KeyframeInterpolator } from "./useKeyframeTrack";
+import type { KeyframeModifier } from "./keyframeExpressions";
 
 type EasingFunction = (t: number) => number;
 
+/**
+ * A tangent shared by every property of a keyframe, or one per property.
+ * Speeds are in each property's units, so shared tangents usually only
+ * set the influence.
+ */
+export type MultiKeyframeTangent<T> =
+  | KeyframeTangent
+  | { [K in keyof T]?: KeyframeTangent };
+
 export type MultiKeyframe<T> = {
   frame: number;
   easing?: EasingFunction;
+  /** Tangent approaching this keyframe, see `Keyframe.inTangent` */
+  inTangent?: MultiKeyframeTangent<T>;
+  /** Tangent leaving this keyframe, see `Keyframe.outTangent` */
+  outTangent?: MultiKeyframeTangent<T>;
+  /** Keep the values of this keyframe until the next one */
+  hold?: boolean;
+  /** Smooth through this keyframe, see `Keyframe.autoBezier` */
+  autoBezier?: boolean;
+  /** Same speed on both sides, see `Keyframe.continuous` */
+  continuous?: boolean;
 } & Partial<T>;
 
+const isSharedTangent = (
+  tangent: MultiKeyframeTangent<unknown>
+): tangent is KeyframeTangent =>
+  Object.keys(tangent).every((key) => key === "speed" || key === "influence");
+
+const getPropertyTangent = <T>(
+  tangent: MultiKeyframeTangent<T> | undefined,
+  prop: keyof T
+): KeyframeTangent | undefined => {
+  if (!tangent) return undefined;
+  if (isSharedTangent(tangent)) return tangent;
+  return (tangent as { [K in keyof T]?: KeyframeTangent })[prop];
+};
+
+/**
+ * Interpolators for non-numeric properties of `useMultiKeyframes`.
+ */
+export type MultiKeyframeInterpolators<T> = {
+  [K in keyof T]?: KeyframeInterpolator<T[K]>;
+};
+
+/**
+ * Expressions applied to properties of `useMultiKeyframes`.
+ */
+export type MultiKeyframeModifiers<T> = {
+  [K in keyof T]?: KeyframeModifier;
+};
+
+const NO_INTERPOLATORS = {};
+const NO_MODIFIERS = {};
+
+/**
+ * Split multi-property keyframes into one compiled track per property of
+ * `defaults`. Evaluating the result gives the value of every property;
+ * `currentDefaults` replaces the defaults of properties without keyframes.
+ * Each property's track is wrapped by its modifier, if any.
+ *
+ * @example
+ * const evaluate = compileMultiKeyframes(keyframes, { x: 0, opacity: 1 });
+ * const { x, opacity } = evaluate(frame);
+ */
+export function compileMultiKeyframes<T extends Record<string, unknown>>(
+  keyframes: MultiKeyframe<T>[],
+  defaults: T,
+  interpolators: MultiKeyframeInterpolators<T> = NO_INTERPOLATORS,
+  modifiers: MultiKeyframeModifiers<T> = NO_MODIFIERS
+): (frame: number, currentDefaults?: T) => T {
+  // Identify all properties we need to interpolate
+  const properties = Object.keys(defaults) as Array<keyof T>;
+
+  const tracks = properties.map((prop) => {
+    // Extract keyframes relevant to this property
+    const propKeyframes = keyframes
+      .filter((kf) => kf[prop] !== undefined)
+      .map((kf) => ({
+        frame: kf.frame,
+        value: kf[prop] as unknown as T[keyof T],
+        easing: kf.easing,
+        inTangent: getPropertyTangent(kf.inTangent, prop),
+        outTangent: getPropertyTangent(kf.outTangent, prop),
+        hold: kf.hold,
+        autoBezier: kf.autoBezier,
+        continuous: kf.continuous,
+      }));
+    const options = { label: String(prop) };
+    const modifier = modifiers[prop];
+
+    const interpolator = interpolators[prop];
+    if (typeof defaults[prop] === "number" && !interpolator) {
+      // Numbers use the single-value logic, so tangent speeds are in their units
+      const compiled = compileKeyframes(propKeyframes as Keyframe[], options);
+      const track = modifier ? modifier(compiled) : compiled;
+      return (frame: number, fallback: T[keyof T]) =>
+        track.evaluate(frame, fallback as number) as T[keyof T];
+    }
+
+    const compiled = compileTrack(propKeyframes, interpolator, options);
+    const track = modifier ? modifier(compiled) : compiled;
+    return (frame: number, fallback: T[keyof T]) => track.evaluate(frame, fallback);
+  });
+
+  return (frame, currentDefaults = defaults) => {
+    const result = {} as T;
+    properties.forEach((prop, i) => {
+      result[prop] = tracks[i](frame, currentDefaults[prop]);
+    });
+    return result;
+  };
+}
+
 /**
  * Hook to use keyframe-based animation for multiple properties at once.
  * Similar to an After Effects timeline with multiple property lanes.
  *
- * @param keyframes Array of keyframes containing frame, easing, and any number of numeric properties
+ * Properties can hold any value `useKeyframeTrack` supports: colors,
+ * points, number arrays and transforms blend, other values are discrete.
+ *
+ * Tracks are compiled again when `keyframes` or `interpolators` change or
+ * a property is added, so keep them stable (e.g. defined outside the
+ * component) in large compositions.
+ *
+ * @param keyframes Array of keyframes containing frame, easing, and any number of properties
  * @param defaults Default values for properties if they are undefined in all keyframes
+ * @param interpolators Interpolator per property, inferred from the first keyframe when omitted
+ * @param modifiers Expression per property, e.g. `{ y: loopOut("pingpong") }`
  * @returns Object containing the interpolated value for each property at the current frame
  *
  * @example
  * const { x, y, rotation } = useMultiKeyframes([
  *   { frame: 0, x: 0, y: 0, rotation: 0 },
  *   { frame: 30, x: 100, easing: Easing.out(Easing.cubic) },
- *   { frame: 60, y: 200, rotation: 180 }
+ *   { frame: 60, y: 200, rotation: 180, inTangent: { influence: 75 } }
  * ], { x: 0, y: 0, rotation: 0 });
+ *
+ * const { color, position } = useMultiKeyframes([
+ *   { frame: 0, color: "#38bdf8", position: { x: 0, y: 0 } },
+ *   { frame: 30, color: "#f472b6", position: { x: 200, y: 80 } },
+ * ], { color: "#38bdf8", position: { x: 0, y: 0 } });
  */
-export const useMultiKeyframes = <T extends Record<string, number>>(
+export const useMultiKeyframes = <T extends Record<string, unknown>>(
   keyframes: MultiKeyframe<T>[],
-  defaults: T
+  defaults: T,
+  interpolators: MultiKeyframeInterpolators<T> = NO_INTERPOLATORS,
+  modifiers: MultiKeyframeModifiers<T> = NO_MODIFIERS
 ): T => {
   const frame = useCurrentFrame();
 
-  // Identify all properties we need to interpolate
-  const properties = Object.keys(defaults) as Array<keyof T>;
-
-  const result = {} as T;
-
-  properties.forEach((prop) => {
-    // Extract keyframes relevant to this property
-    const propKeyframes: Keyframe[] = keyframes
-      .filter((kf) => kf[prop] !== undefined)
-      .map((kf) => ({
-        frame: kf.frame,
-        value: kf[prop] as number,
-        easing: kf.easing,
-      }));
+  // Defaults are usually an inline object: only their shape invalidates the tracks
+  const shape = Object.entries(defaults)
+    .map(([key, value]) => `${key}:${typeof value}`)
+    .join(",");
 
-    // Interpolate using the single-value logic
-    result[prop] = interpolateKeyframes(
-      frame,
-      propKeyframes,
-      defaults[prop]
-    ) as T[keyof T];
-  });
+  const evaluate = useMemo(
+    () => compileMultiKeyframes(keyframes, defaults, interpolators, modifiers),
+    [keyframes, shape, interpolators, modifiers]
+  );
 
-  return result;
+  return evaluate(frame, defaults);
 };
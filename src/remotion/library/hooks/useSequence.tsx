@@ -1,4 +1,4 @@
-import { useMemo, useCallback } from "react";
+import { createContext, useCallback, useContext, useEffect, useId, useMemo } from "react";
 import { useCurrentFrame, useVideoConfig } from "remotion";
 
 /**
@@ -23,6 +23,53 @@ export interface SequenceBeat {
   at: number;
 }
 
+/**
+ * Scenes and beats of a sequence, as published to a host app.
+ */
+export interface SequenceReport {
+  scenes: SequenceScene[];
+  beats: SequenceBeat[];
+}
+
+/**
+ * Receives the scenes and beats of every `useSequence` call below it.
+ * Each call reports separately, identified by a `callerId` stable across
+ * its renders, and reports `null` when it unmounts; combine them with
+ * `mergeSequenceReports`.
+ *
+ * Host apps (e.g. a preview with a timeline) provide a callback around the
+ * Player. Outside of a provider, publishing is a no-op, so rendering is
+ * unaffected.
+ *
+ * @example
+ * const reports = useRef(new Map<string, SequenceReport>());
+ *
+ * <SequenceReportContext.Provider
+ *   value={(callerId, report) => {
+ *     if (report) reports.current.set(callerId, report);
+ *     else reports.current.delete(callerId);
+ *     setTimeline(mergeSequenceReports([...reports.current.values()]));
+ *   }}
+ * >
+ *   <Player component={MyComposition} ... />
+ * </SequenceReportContext.Provider>
+ */
+export const SequenceReportContext = createContext<
+  ((callerId: string, report: SequenceReport | null) => void) | null
+>(null);
+
+/**
+ * Combine the reports of several `useSequence` calls into one, in order.
+ */
+export function mergeSequenceReports(reports: SequenceReport[]): SequenceReport {
+  return {
+    scenes: reports.flatMap((report) => report.scenes),
+    beats: reports.flatMap((report) => report.beats),
+  };
+}
+
+const NO_BEATS: SequenceBeat[] = [];
+
 /**
  * Hook return type for useSequence.
  */
@@ -44,7 +91,8 @@ export interface UseSequenceReturn {
  * Integrates with Remotion's frame-based system.
  *
  * Scenes and beats are passed as static configuration. The hook returns
- * query functions that reflect the current frame.
+ * query functions that reflect the current frame, and publishes the
+ * configuration to a surrounding `SequenceReportContext`.
  *
  * @example
  * const scenes = [
@@ -72,10 +120,20 @@ export interface UseSequenceReturn {
  */
 export function useSequence(
   scenes: SequenceScene[],
-  beats: SequenceBeat[] = [],
+  beats: SequenceBeat[] = NO_BEATS,
 ): UseSequenceReturn {
   const frame = useCurrentFrame();
   const { fps } = useVideoConfig();
+  const report = useContext(SequenceReportContext);
+  const callerId = useId();
+
+  // Publish the configuration to a host app, if any
+  useEffect(() => {
+    report?.(callerId, { scenes, beats });
+  }, [report, callerId, scenes, beats]);
+
+  // Withdraw it on unmount, so the host doesn't keep showing stale scenes
+  useEffect(() => () => report?.(callerId, null), [report, callerId]);
 
   const currentTime = frame / fps;
 
@@ -3,12 +3,14 @@ import {
   useCurrentFrame,
   useVideoConfig,
   spring as remotionSpring,
+  measureSpring,
 } from "remotion";
 import {
   getSpring,
   type SpringConfig,
   type SpringName,
 } from "../presets/springs";
+import { compileSpringTrack } from "./useSpringTrack";
 
 /**
  * Options for the useSpring hook.
@@ -18,9 +20,9 @@ export interface UseSpringOptions {
   spring?: SpringName | SpringConfig;
   /** Delay before animation starts (in seconds) */
   delay?: number;
-  /** Initial velocity */
+  /** Initial velocity, in progress per second (1 = the full distance in a second) */
   velocity?: number;
-  /** Duration override in seconds (converts spring to timed animation) */
+  /** Duration override in seconds; the spring is stretched to settle in exactly this time */
   duration?: number;
   /** Starting frame for the animation (frame number, not seconds) */
   startFrame?: number;
@@ -62,12 +64,18 @@ export interface UseSpringReturn {
  * const { value } = useSpring({
  *   spring: { tension: 200, friction: 15 }
  * });
+ *
+ * @example
+ * // Thrown in fast, settling in exactly one second
+ * const { value } = useSpring({ spring: 'bouncy', velocity: 6, duration: 1 });
  */
 export function useSpring(options: UseSpringOptions = {}): UseSpringReturn {
   const {
     spring: springOption = "smooth",
     delay = 0,
     startFrame,
+    duration,
+    velocity = 0,
   } = options;
 
   const frame = useCurrentFrame();
@@ -87,27 +95,47 @@ export function useSpring(options: UseSpringOptions = {}): UseSpringReturn {
   // Check if animation has started
   const hasStarted = frame >= animationStartFrame + delayFrames;
 
+  const durationInFrames = duration === undefined ? undefined : duration * fps;
+
+  // Remotion's spring starts at rest, so a thrown spring is simulated here.
+  // Simulated and measured once per config rather than on every frame
+  const { tension, friction, mass, clamp } = springConfig;
+  const thrownSpring = useMemo(
+    () =>
+      velocity === 0
+        ? null
+        : createThrownSpring(
+            fps,
+            { tension, friction, mass, clamp },
+            velocity,
+            durationInFrames,
+          ),
+    [fps, tension, friction, mass, clamp, velocity, durationInFrames],
+  );
+
   // Use Remotion's spring function for physics-accurate animation
   const value = useMemo(() => {
     if (!hasStarted) return 0;
 
-    // Remotion's spring config uses different naming
-    // tension -> stiffness, friction -> damping
-    const stiffness = springConfig.tension;
-    const damping = springConfig.friction;
-    const mass = springConfig.mass ?? 1;
+    if (thrownSpring) return thrownSpring(effectiveFrame);
 
     return remotionSpring({
       frame: effectiveFrame,
       fps,
-      config: {
-        mass,
-        damping,
-        stiffness,
-        overshootClamping: springConfig.clamp ?? false,
-      },
+      config: toRemotionConfig({ tension, friction, mass, clamp }),
+      durationInFrames,
     });
-  }, [effectiveFrame, fps, springConfig, hasStarted]);
+  }, [
+    effectiveFrame,
+    fps,
+    tension,
+    friction,
+    mass,
+    clamp,
+    hasStarted,
+    durationInFrames,
+    thrownSpring,
+  ]);
 
   // Animation is complete when value is very close to 1
   const isComplete = value >= 0.999;
@@ -165,6 +193,86 @@ export function useMultiSpring<T extends Record<string, [number, number]>>(
   }, [value, values]);
 }
 
+// Remotion's spring config uses different naming
+// tension -> stiffness, friction -> damping
+const toRemotionConfig = (config: SpringConfig) => ({
+  mass: config.mass ?? 1,
+  damping: config.friction,
+  stiffness: config.tension,
+  overshootClamping: config.clamp ?? false,
+});
+
+/**
+ * Spring from 0 to 1 with an initial velocity, optionally stretched to
+ * settle in `durationInFrames`, as a function of the frame.
+ */
+function createThrownSpring(
+  fps: number,
+  config: SpringConfig,
+  velocity: number,
+  durationInFrames: number | undefined,
+): (frame: number) => number {
+  const track = compileSpringTrack([{ frame: 0, value: 1, impulse: velocity }], fps, {
+    from: 0,
+    spring: config,
+  });
+  if (durationInFrames === undefined) return track.evaluate;
+
+  const naturalFrames = getSpringSettleFrame(config, fps, { velocity });
+  return (frame) => track.evaluate((frame * naturalFrames) / durationInFrames);
+}
+
+/**
+ * Options for `getSpringSettleFrame`.
+ */
+export interface SpringSettleOptions {
+  /** Initial velocity, in progress per second (default: 0) */
+  velocity?: number;
+  /** Distance from the target that counts as settled, as a fraction (default: 0.005) */
+  threshold?: number;
+}
+
+// Springs that take longer than this are reported as this long
+const MAX_SETTLE_SECONDS = 60;
+
+/**
+ * Number of frames a spring from 0 to 1 takes to settle, i.e. to stay
+ * within `threshold` of its target. Use it to size a `Sequence` to its
+ * animation.
+ *
+ * @example
+ * const { fps } = useVideoConfig();
+ * <Sequence durationInFrames={getSpringSettleFrame("bouncy", fps)}>
+ *   <Title />
+ * </Sequence>
+ */
+export function getSpringSettleFrame(
+  springOption: SpringName | SpringConfig,
+  fps: number,
+  options: SpringSettleOptions = {},
+): number {
+  const { velocity = 0, threshold = 0.005 } = options;
+  const config = getSpring(springOption);
+
+  if (velocity === 0) {
+    return measureSpring({ fps, config: toRemotionConfig(config), threshold });
+  }
+
+  // Settled once the spring is close and too slow to leave the threshold again
+  const track = compileSpringTrack([{ frame: 0, value: 1, impulse: velocity }], fps, {
+    from: 0,
+    spring: config,
+  });
+  const maxFrames = MAX_SETTLE_SECONDS * fps;
+  for (let frame = 0; frame < maxFrames; frame++) {
+    const state = track.getState(frame);
+    if (Math.abs(state.value - 1) < threshold && Math.abs(state.velocity) / fps < threshold) {
+      return frame;
+    }
+  }
+  return maxFrames;
+}
+
 /**
  * Create a spring animation value directly (no hook).
  * Useful for one-off calculations.
@@ -184,11 +292,6 @@ export function calculateSpring(
   return remotionSpring({
     frame: effectiveFrame,
     fps,
-    config: {
-      mass: springConfig.mass ?? 1,
-      damping: springConfig.friction,
-      stiffness: springConfig.tension,
-      overshootClamping: springConfig.clamp ?? false,
-    },
+    config: toRemotionConfig(springConfig),
   });
 }
@@ -0,0 +1,150 @@
+import { useMemo } from "react";
+import { useCurrentFrame, useVideoConfig } from "remotion";
+import {
+  getSpring,
+  type SpringConfig,
+  type SpringName,
+} from "../presets/springs";
+import { advanceSpring, type SpringState } from "./useSpringTrack";
+import type { KeyframeTrackLike } from "./keyframeExpressions";
+
+/**
+ * A value a follower can chase: a number or an object of numbers, like a
+ * point.
+ */
+export type FollowValue = number | Record<string, number>;
+
+/**
+ * What a follower chases: a function of the frame or a compiled track.
+ */
+export type FollowTarget<V extends FollowValue> =
+  | ((frame: number) => V)
+  | KeyframeTrackLike<V>;
+
+export interface SpringFollowOptions {
+  /** Spring pulling the follower toward the target (default: "smooth") */
+  spring?: SpringName | SpringConfig;
+  /** Frames the follower trails the target by, before the spring's own lag */
+  delay?: number;
+}
+
+/**
+ * A spring simulated frame by frame from frame 0, with every integer frame
+ * cached so seeking back is a lookup and seeking forward continues from
+ * the furthest frame simulated.
+ */
+export interface SpringFollower<V extends FollowValue> {
+  /** Follower value at a frame */
+  evaluate: (frame: number) => V;
+}
+
+const toFunction = <V extends FollowValue>(target: FollowTarget<V>) =>
+  typeof target === "function" ? target : (frame: number) => target.evaluate(frame);
+
+/**
+ * Create a follower of `target`, the spring-smoothed version of its motion.
+ * Each frame the spring is pulled toward where the target is, so it lags
+ * behind fast moves and overshoots sudden stops.
+ *
+ * @example
+ * const track = compileKeyframes(keyframes);
+ * const follower = createSpringFollower(track, fps, { spring: "wobbly" });
+ * const x = follower.evaluate(frame);
+ */
+export function createSpringFollower<V extends FollowValue>(
+  target: FollowTarget<V>,
+  fps: number,
+  options: SpringFollowOptions = {}
+): SpringFollower<V> {
+  const { spring = "smooth", delay = 0 } = options;
+  const config = getSpring(spring);
+  const getTarget = toFunction(target);
+  const sample = (frame: number) => getTarget(Math.max(0, frame - delay));
+
+  // Properties of object values, in a fixed order
+  const first = sample(0);
+  const keys = typeof first === "number" ? null : Object.keys(first);
+  const toVector = (value: V): number[] =>
+    keys === null
+      ? [value as number]
+      : keys.map((key) => (value as Record<string, number>)[key]);
+  const fromVector = (vector: number[]): V =>
+    (keys === null
+      ? vector[0]
+      : Object.fromEntries(keys.map((key, i) => [key, vector[i]]))) as V;
+
+  // Starts at rest on the target
+  const states: SpringState[][] = [
+    toVector(first).map((value) => ({ value, velocity: 0 })),
+  ];
+
+  const stateAt = (frame: number): SpringState[] => {
+    while (states.length <= frame) {
+      const previous = states.length - 1;
+      const goal = toVector(sample(previous));
+      states.push(
+        states[previous].map((state, i) => advanceSpring(state, goal[i], config, 1 / fps))
+      );
+    }
+    return states[frame];
+  };
+
+  const evaluate = (frame: number): V => {
+    if (frame <= 0) return first;
+
+    // Fractional frames continue from the frame before
+    const whole = Math.floor(frame);
+    const current = stateAt(whole);
+    if (frame === whole) return fromVector(current.map((state) => state.value));
+
+    const goal = toVector(sample(whole));
+    return fromVector(
+      current.map(
+        (state, i) => advanceSpring(state, goal[i], config, (frame - whole) / fps).value
+      )
+    );
+  };
+
+  return { evaluate };
+}
+
+/**
+ * Hook for secondary motion: a spring-smoothed follower of any animated
+ * value, such as a cursor trailing a keyframed pointer, a camera easing
+ * after its subject or a label dangling from a moving shape.
+ *
+ * The follower is simulated deterministically from frame 0, so rendering
+ * any frame gives the same result. Pass a stable target (a compiled track,
+ * or a function from `useCallback`): a new target restarts the simulation.
+ *
+ * @example
+ * const pointer = useMemo(() => compileTrack(pointerKeyframes), []);
+ * const cursor = useSpringFollow(pointer, { spring: "wobbly" });
+ *
+ * @example
+ * // A label trailing a point moving along a path
+ * const getPoint = useCallback((f: number) => pathPointAt(f / 90), []);
+ * const { x, y } = useSpringFollow(getPoint, { spring: "gentle", delay: 3 });
+ */
+export function useSpringFollow<V extends FollowValue>(
+  target: FollowTarget<V>,
+  options: SpringFollowOptions = {}
+): V {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { spring = "smooth", delay } = options;
+
+  // Resolve the spring to its values so an inline config doesn't restart
+  // the simulation
+  const { tension, friction, mass, clamp } = getSpring(spring);
+  const follower = useMemo(
+    () =>
+      createSpringFollower(target, fps, {
+        spring: { tension, friction, mass, clamp },
+        delay,
+      }),
+    [target, fps, tension, friction, mass, clamp, delay]
+  );
+
+  return follower.evaluate(frame);
+}
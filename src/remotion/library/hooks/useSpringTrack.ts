@@ -0,0 +1,331 @@
+import { useMemo } from "react";
+import { useCurrentFrame, useVideoConfig } from "remotion";
+import {
+  getSpring,
+  type SpringConfig,
+  type SpringName,
+} from "../presets/springs";
+
+/**
+ * A new target for a spring track: from `frame` on, the spring pulls
+ * toward `value`, starting from wherever the previous spring was and as
+ * fast as it was moving.
+ */
+export interface SpringTarget {
+  /** Frame the spring is retargeted at */
+  frame: number;
+  /** Value the spring moves toward */
+  value: number;
+  /** Spring of this segment, defaults to the track's spring */
+  spring?: SpringName | SpringConfig;
+  /** Extra velocity added at the handoff, in value units per second */
+  impulse?: number;
+}
+
+/**
+ * Position and velocity of a spring at one frame.
+ */
+export interface SpringState {
+  value: number;
+  /** Value units per second */
+  velocity: number;
+}
+
+export interface SpringTrackOptions {
+  /** Value before the first target (default: the first target's value, at rest) */
+  from?: number;
+  /** Spring of segments that don't set one (default: "smooth") */
+  spring?: SpringName | SpringConfig;
+  /** Name of the animated property in error messages */
+  label?: string;
+}
+
+/**
+ * Spring targets sorted and simulated once. `evaluate` has the shape of a
+ * compiled keyframe track, so keyframe modifiers like `wiggle` apply to it.
+ */
+export interface CompiledSpringTrack {
+  /** Targets sorted by frame */
+  keyframes: readonly SpringTarget[];
+  /** Value at a frame */
+  evaluate: (frame: number) => number;
+  /** Value and velocity at a frame */
+  getState: (frame: number) => SpringState;
+}
+
+/**
+ * Advance a damped spring by `time` seconds with the closed-form solution,
+ * so the result does not depend on how the frames are stepped. Matches
+ * Remotion's `spring()` except for overdamped springs, which it treats as
+ * critically damped.
+ *
+ * @example
+ * // One frame of a spring pulled toward 100
+ * const next = advanceSpring({ value: 0, velocity: 0 }, 100, getSpring("bouncy"), 1 / fps);
+ */
+export function advanceSpring(
+  state: SpringState,
+  target: number,
+  config: SpringConfig,
+  time: number
+): SpringState {
+  const mass = config.mass ?? 1;
+  const stiffness = config.tension;
+  const damping = config.friction;
+
+  const omega = Math.sqrt(stiffness / mass);
+  const zeta = damping / (2 * Math.sqrt(stiffness * mass));
+  const x0 = state.value - target;
+  const v0 = state.velocity;
+
+  let offset: number;
+  let velocity: number;
+
+  if (zeta < 1) {
+    // Underdamped: oscillates around the target
+    const omegaD = omega * Math.sqrt(1 - zeta * zeta);
+    const decay = Math.exp(-zeta * omega * time);
+    const b = (v0 + zeta * omega * x0) / omegaD;
+    const cos = Math.cos(omegaD * time);
+    const sin = Math.sin(omegaD * time);
+    offset = decay * (x0 * cos + b * sin);
+    velocity = decay * (v0 * cos - (zeta * omega * b + omegaD * x0) * sin);
+  } else if (zeta === 1) {
+    // Critically damped: the fastest approach without overshoot
+    const decay = Math.exp(-omega * time);
+    const b = v0 + omega * x0;
+    offset = decay * (x0 + b * time);
+    velocity = decay * (b - omega * (x0 + b * time));
+  } else {
+    // Overdamped: creeps toward the target
+    const root = omega * Math.sqrt(zeta * zeta - 1);
+    const r1 = -zeta * omega + root;
+    const r2 = -zeta * omega - root;
+    const c2 = (v0 - r1 * x0) / (r2 - r1);
+    const c1 = x0 - c2;
+    offset = c1 * Math.exp(r1 * time) + c2 * Math.exp(r2 * time);
+    velocity = r1 * c1 * Math.exp(r1 * time) + r2 * c2 * Math.exp(r2 * time);
+  }
+
+  // Clamped springs stop at the target instead of overshooting it
+  if (config.clamp && x0 !== 0 && Math.sign(offset) !== Math.sign(x0)) {
+    return { value: target, velocity: 0 };
+  }
+
+  return { value: target + offset, velocity };
+}
+
+// Spring of segments that don't set one
+const DEFAULT_SPRING: SpringName = "smooth";
+
+/**
+ * Index of the last target at or before `frame`, -1 before the first one.
+ */
+const findTarget = (targets: readonly SpringTarget[], frame: number) => {
+  let low = -1;
+  let high = targets.length;
+  while (high - low > 1) {
+    const mid = (low + high) >> 1;
+    if (targets[mid].frame <= frame) low = mid;
+    else high = mid;
+  }
+  return low;
+};
+
+/**
+ * Simulate a spring that is retargeted at given frames. Each segment
+ * starts with the position and velocity the previous spring had at the
+ * handoff, so interrupted motion stays smooth.
+ *
+ * @example
+ * const track = compileSpringTrack(
+ *   [{ frame: 0, value: 0 }, { frame: 30, value: 200 }, { frame: 45, value: 80 }],
+ *   fps,
+ *   { spring: "bouncy" }
+ * );
+ * const x = track.evaluate(frame);
+ */
+export function compileSpringTrack(
+  targets: SpringTarget[],
+  fps: number,
+  options: SpringTrackOptions = {}
+): CompiledSpringTrack {
+  const { spring = DEFAULT_SPRING, label } = options;
+  const sorted = [...targets].sort((a, b) => a.frame - b.frame);
+
+  const problems = sorted.flatMap((target, i) => [
+    ...(Number.isFinite(target.frame) && Number.isFinite(target.value)
+      ? []
+      : [`target ${target.value} at frame ${target.frame} is not finite`]),
+    ...(i > 0 && sorted[i - 1].frame === target.frame
+      ? [`frame ${target.frame} has more than one target`]
+      : []),
+  ]);
+  if (problems.length > 0) {
+    throw new Error(
+      `Invalid spring targets${label ? ` for ${label}` : ""}: ${problems.join("; ")}`
+    );
+  }
+
+  const configs = sorted.map((target) => getSpring(target.spring ?? spring));
+  const from = options.from ?? sorted[0]?.value ?? 0;
+
+  // State of the spring at each handoff, impulse included
+  const starts: SpringState[] = [];
+  sorted.forEach((target, i) => {
+    const previous =
+      i === 0
+        ? { value: from, velocity: 0 }
+        : advanceSpring(
+            starts[i - 1],
+            sorted[i - 1].value,
+            configs[i - 1],
+            (target.frame - sorted[i - 1].frame) / fps
+          );
+    starts.push({ ...previous, velocity: previous.velocity + (target.impulse ?? 0) });
+  });
+
+  const getState = (frame: number): SpringState => {
+    const index = findTarget(sorted, frame);
+    if (index < 0) return { value: from, velocity: 0 };
+    return advanceSpring(
+      starts[index],
+      sorted[index].value,
+      configs[index],
+      (frame - sorted[index].frame) / fps
+    );
+  };
+
+  return {
+    keyframes: sorted,
+    evaluate: (frame) => getState(frame).value,
+    getState,
+  };
+}
+
+/**
+ * Hook for a spring that changes target over time, e.g. a card that
+ * moves to B at frame 30 and is redirected to C at frame 45 while still
+ * moving. Unlike chaining `useSpring` calls, velocity carries over.
+ *
+ * @param targets Targets, compiled again whenever the array changes
+ * @returns The value at the current frame
+ *
+ * @example
+ * const targets = useMemo(() => [
+ *   { frame: 0, value: 0 },
+ *   { frame: 30, value: 300 },
+ *   { frame: 45, value: 120, spring: "wobbly" },
+ * ], []);
+ * const x = useSpringTrack(targets, { spring: "snappy" });
+ */
+export function useSpringTrack(
+  targets: SpringTarget[],
+  options: SpringTrackOptions = {}
+): number {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { from, spring = DEFAULT_SPRING, label } = options;
+
+  // Resolve the spring to its values so an inline config doesn't recompile
+  const { tension, friction, mass, clamp } = getSpring(spring);
+  const track = useMemo(
+    () =>
+      compileSpringTrack(targets, fps, {
+        from,
+        spring: { tension, friction, mass, clamp },
+        label,
+      }),
+    [targets, fps, from, tension, friction, mass, clamp, label]
+  );
+
+  return track.evaluate(frame);
+}
+
+/**
+ * A target for several springs at once. Properties left out keep their
+ * current target.
+ */
+export type MultiSpringTarget<T> = {
+  frame: number;
+  /** Spring of this segment for every property */
+  spring?: SpringName | SpringConfig;
+} & Partial<T>;
+
+/**
+ * Compile one spring track per property of `from`.
+ */
+export function compileMultiSpringTrack<T extends Record<string, number>>(
+  targets: MultiSpringTarget<T>[],
+  from: T,
+  fps: number,
+  spring?: SpringName | SpringConfig
+): { [K in keyof T]: CompiledSpringTrack } {
+  const tracks = {} as { [K in keyof T]: CompiledSpringTrack };
+
+  for (const key in from) {
+    const propertyTargets: SpringTarget[] = targets
+      .filter((target) => target[key] !== undefined)
+      .map((target) => ({
+        frame: target.frame,
+        value: target[key] as number,
+        spring: target.spring,
+      }));
+    tracks[key] = compileSpringTrack(propertyTargets, fps, {
+      from: from[key],
+      spring,
+      label: key,
+    });
+  }
+
+  return tracks;
+}
+
+/**
+ * Hook for several springs retargeted together, like `useMultiSpring`
+ * with a list of targets. Each property keeps its own velocity.
+ *
+ * @param targets Targets, compiled again whenever the array changes
+ * @param from Values before the first target; also lists the animated properties
+ *
+ * @example
+ * const { x, scale } = useMultiSpringTrack(
+ *   [
+ *     { frame: 10, x: 400, scale: 1.2 },
+ *     { frame: 25, x: 150 },
+ *     { frame: 40, scale: 1, spring: "gentle" },
+ *   ],
+ *   { x: 0, scale: 1 },
+ *   { spring: "bouncy" }
+ * );
+ */
+export function useMultiSpringTrack<T extends Record<string, number>>(
+  targets: MultiSpringTarget<T>[],
+  from: T,
+  options: Pick<SpringTrackOptions, "spring"> = {}
+): { [K in keyof T]: number } {
+  const frame = useCurrentFrame();
+  const { fps } = useVideoConfig();
+  const { spring = DEFAULT_SPRING } = options;
+
+  // Compare initial values and the spring by content so inline objects
+  // don't recompile
+  const fromKey = JSON.stringify(from);
+  const { tension, friction, mass, clamp } = getSpring(spring);
+  const tracks = useMemo(
+    () =>
+      compileMultiSpringTrack(targets, JSON.parse(fromKey) as T, fps, {
+        tension,
+        friction,
+        mass,
+        clamp,
+      }),
+    [targets, fromKey, fps, tension, friction, mass, clamp]
+  );
+
+  const result = {} as { [K in keyof T]: number };
+  for (const key in tracks) {
+    result[key] = tracks[key].evaluate(frame);
+  }
+  return result;
+}
@@ -1,5 +1,7 @@
 import { useMemo } from "react";
+import { random } from "remotion";
 import { getEasing, type EasingName } from "../presets/easings";
+import { toRemotionEasing } from "../presets/remotionEasings";
 
 /**
  * Stagger pattern types for different animation sequences.
@@ -12,6 +14,31 @@ export type StaggerPattern =
   | "random" // Random order
   | "wave"; // Wave pattern (for grids)
 
+/**
+ * Position of a staggered item. `id` keeps random delays stable when items
+ * are added, removed or reordered.
+ */
+export interface StaggerPoint {
+  x: number;
+  y: number;
+  id?: string | number;
+}
+
+/**
+ * How delays are spread over item positions.
+ * - `distance`: nearest to `origin` first (default origin: the center of
+ *   the items), farthest first with `reverse`
+ * - `direction`: a sweep along `angle` in degrees (0 = left to right,
+ *   90 = top to bottom)
+ * - `random`: seeded per item id, so an item keeps its delay
+ * - a function: any number per item; lowest starts first
+ */
+export type StaggerDistribution =
+  | { type: "distance"; origin?: { x: number; y: number }; reverse?: boolean }
+  | { type: "direction"; angle: number }
+  | { type: "random"; seed?: string }
+  | ((point: StaggerPoint, index: number, points: StaggerPoint[]) => number);
+
 /**
  * Configuration for stagger animations.
  */
@@ -30,6 +57,13 @@ export interface StaggerConfig {
   grid?: [number, number];
   /** Direction for grid stagger: 'x', 'y', or 'both' */
   axis?: "x" | "y" | "both";
+  /**
+   * Stagger by item position instead of `pattern`. `ease` then shapes the
+   * delays in `getDelay` as well as in GSAP.
+   */
+  distribution?: StaggerDistribution;
+  /** Item positions for `distribution` (default: from `grid`, else a row) */
+  positions?: StaggerPoint[];
 }
 
 /**
@@ -38,8 +72,8 @@ export interface StaggerConfig {
 export interface UseStaggerReturn {
   /** Get the delay for a specific item index */
   getDelay: (index: number, total: number) => number;
-  /** Generate GSAP stagger config object */
-  toGsap: (total: number) => gsap.StaggerVars;
+  /** Generate GSAP stagger config, a function of the index for `distribution` */
+  toGsap: (total: number) => gsap.StaggerVars | gsap.NumberValue | gsap.FunctionBasedValue<number>;
   /** Get all delays as an array */
   getDelays: (total: number) => number[];
 }
@@ -61,6 +95,13 @@ export interface UseStaggerReturn {
  *   grid: [4, 3],
  *   axis: 'both'
  * });
+ *
+ * // Ripple out from a point, for items anywhere
+ * const { getDelay } = useStagger({
+ *   amount: 0.6,
+ *   distribution: { type: 'distance', origin: { x: 300, y: 200 } },
+ *   positions: cards.map((card) => ({ x: card.x, y: card.y, id: card.id })),
+ * });
  */
 export function useStagger(config: StaggerConfig = {}): UseStaggerReturn {
   const {
@@ -71,13 +112,30 @@ export function useStagger(config: StaggerConfig = {}): UseStaggerReturn {
     ease = "power1.out",
     grid,
     axis = "both",
+    distribution,
+    positions,
   } = config;
 
   const gsapEase = getEasing(ease);
 
   // Calculate delay for a single item
   const getDelay = useMemo(() => {
+    // Spatial delays depend on every position, so they are computed together
+    const spatialCache = new Map<number, number[]>();
+    const getSpatialDelays = (spatial: StaggerDistribution, total: number) => {
+      const cached = spatialCache.get(total);
+      if (cached) return cached;
+
+      const points = positions ?? (grid ? getGridPoints(total, grid[0]) : getRowPoints(total));
+      const easing = toRemotionEasing(ease);
+      const span = each ? each * (points.length - 1) : amount;
+      const delays = getStaggerFactors(points, spatial).map((f) => easing(f) * span);
+      spatialCache.set(total, delays);
+      return delays;
+    };
+
     return (index: number, total: number): number => {
+      if (distribution) return getSpatialDelays(distribution, total)[index] ?? 0;
       if (total <= 1) return 0;
 
       const staggerEach = each ?? amount / (total - 1);
@@ -140,7 +198,7 @@ export function useStagger(config: StaggerConfig = {}): UseStaggerReturn {
 
       return factor * (each ? staggerEach * (total - 1) : amount);
     };
-  }, [amount, each, pattern, grid, axis]);
+  }, [amount, each, pattern, grid, axis, distribution, positions, ease]);
 
   // Generate all delays as an array
   const getDelays = useMemo(() => {
@@ -151,7 +209,15 @@ export function useStagger(config: StaggerConfig = {}): UseStaggerReturn {
 
   // Generate GSAP stagger config
   const toGsap = useMemo(() => {
-    return (total: number): gsap.StaggerVars => {
+    return (
+      total: number,
+    ): gsap.StaggerVars | gsap.NumberValue | gsap.FunctionBasedValue<number> => {
+      // Spatial delays are passed to GSAP as they are
+      if (distribution) {
+        const delays = getDelays(total);
+        return (index: number) => delays[index] ?? 0;
+      }
+
       // For simple patterns, use GSAP's built-in stagger
       if (pattern === "start" && !grid) {
         return {
@@ -208,7 +274,7 @@ export function useStagger(config: StaggerConfig = {}): UseStaggerReturn {
         ease: gsapEase,
       };
     };
-  }, [amount, each, pattern, from, gsapEase, grid, axis]);
+  }, [amount, each, pattern, from, gsapEase, grid, axis, distribution, getDelays]);
 
   return {
     getDelay,
@@ -217,6 +283,76 @@ export function useStagger(config: StaggerConfig = {}): UseStaggerReturn {
   };
 }
 
+/**
+ * Positions of `count` items in a grid with `columns` columns, one unit
+ * apart, filled row by row like `Grid`.
+ */
+export function getGridPoints(count: number, columns: number): StaggerPoint[] {
+  return Array.from({ length: count }, (_, i) => ({
+    x: i % columns,
+    y: Math.floor(i / columns),
+  }));
+}
+
+/**
+ * Positions of `count` items on a circle of radius 1, placed like
+ * `CircleLayout` (angles in degrees, 0 = top).
+ */
+export function getCirclePoints(
+  count: number,
+  startAngle: number = 0,
+  endAngle: number = 360,
+): StaggerPoint[] {
+  const totalAngle = endAngle - startAngle;
+  const step =
+    Math.abs(totalAngle) >= 360
+      ? totalAngle / count
+      : totalAngle / Math.max(count - 1, 1);
+
+  return Array.from({ length: count }, (_, i) => {
+    const angle = (startAngle + step * i - 90) * (Math.PI / 180);
+    return { x: Math.cos(angle), y: Math.sin(angle) };
+  });
+}
+
+const getRowPoints = (count: number): StaggerPoint[] =>
+  Array.from({ length: count }, (_, i) => ({ x: i, y: 0 }));
+
+/**
+ * Stagger factor (0-1) of each point: 0 starts first, 1 last.
+ * Random factors are not rescaled, so an item's factor only depends on
+ * its id.
+ */
+export function getStaggerFactors(
+  points: StaggerPoint[],
+  distribution: StaggerDistribution,
+): number[] {
+  if (typeof distribution !== "function" && distribution.type === "random") {
+    const seed = distribution.seed ?? "stagger";
+    return points.map((point, i) => random(`${seed}-${point.id ?? i}`));
+  }
+
+  let values: number[];
+  if (typeof distribution === "function") {
+    values = points.map((point, i) => distribution(point, i, points));
+  } else if (distribution.type === "distance") {
+    const origin = distribution.origin ?? {
+      x: (Math.min(...points.map((p) => p.x)) + Math.max(...points.map((p) => p.x))) / 2,
+      y: (Math.min(...points.map((p) => p.y)) + Math.max(...points.map((p) => p.y))) / 2,
+    };
+    const sign = distribution.reverse ? -1 : 1;
+    values = points.map((p) => sign * Math.hypot(p.x - origin.x, p.y - origin.y));
+  } else {
+    const angle = (distribution.angle * Math.PI) / 180;
+    values = points.map((p) => p.x * Math.cos(angle) + p.y * Math.sin(angle));
+  }
+
+  // Rescale so the first item starts at 0 and the last at 1
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min;
+  return values.map((v) => (range > 0 ? (v - min) / range : 0));
+}
+
 /**
  * Create a stagger configuration object for GSAP.
  * Convenience function for one-off stagger needs.
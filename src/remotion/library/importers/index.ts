@@ -0,0 +1,12 @@
+/**
+ * Importers barrel export.
+ */
+
+export {
+  lottieToMultiKeyframes,
+  lottieToCameraKeyframes,
+  getLottieLayers,
+  LOTTIE_TRANSFORM_DEFAULTS,
+  type LottieTransform,
+  type LottieImportOptions,
+} from "./lottie";
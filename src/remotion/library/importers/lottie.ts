@@ -0,0 +1,455 @@
+import { Easing } from "remotion";
+import type { CameraKeyframe } from "../components/layout";
+import type { MultiKeyframe } from "../hooks";
+
+// ---------------------------------------------------------------------------
+// Lottie format (the subset read here)
+
+type LottieTangent = { x: number | number[]; y: number | number[] };
+
+interface LottieKeyframe {
+  /** Time in Lottie frames */
+  t: number;
+  /** Value at this keyframe */
+  s?: number[] | number;
+  /** Value at the next keyframe (files exported before Bodymovin 5.5) */
+  e?: number[] | number;
+  /** Out tangent of this keyframe */
+  o?: LottieTangent;
+  /** In tangent of the next keyframe */
+  i?: LottieTangent;
+  /** 1 when the value holds until the next keyframe */
+  h?: number;
+}
+
+interface LottieProperty {
+  /** 1 when animated */
+  a?: number;
+  /** Static value or keyframes */
+  k: number | number[] | LottieKeyframe[];
+}
+
+interface LottieLayer {
+  nm?: string;
+  ind?: number;
+  /** Start time of the layer, keyframe times are relative to it */
+  st?: number;
+  ddd?: number;
+  ks?: {
+    p?: LottieProperty & { s?: boolean; x?: LottieProperty; y?: LottieProperty };
+    s?: LottieProperty;
+    r?: LottieProperty;
+    rx?: LottieProperty;
+    ry?: LottieProperty;
+    rz?: LottieProperty;
+    o?: LottieProperty;
+  };
+}
+
+interface LottieAnimation {
+  /** Frame rate */
+  fr: number;
+  /** First frame */
+  ip: number;
+  w: number;
+  h: number;
+  layers: LottieLayer[];
+}
+
+// ---------------------------------------------------------------------------
+// Output
+
+/**
+ * Transform properties read from a Lottie layer.
+ */
+export type LottieTransform = {
+  /** Horizontal position in pixels, relative to `positionOrigin` */
+  x: number;
+  /** Vertical position in pixels, relative to `positionOrigin` */
+  y: number;
+  /** Horizontal scale (1 = 100%) */
+  scaleX: number;
+  /** Vertical scale (1 = 100%) */
+  scaleY: number;
+  /** Rotation in degrees (Z axis) */
+  rotation: number;
+  /** Rotation around X in degrees (3D layers) */
+  rotateX: number;
+  /** Rotation around Y in degrees (3D layers) */
+  rotateY: number;
+  /** Opacity from 0 to 1 */
+  opacity: number;
+};
+
+/**
+ * Values of properties a layer does not animate, for `useMultiKeyframes`.
+ */
+export const LOTTIE_TRANSFORM_DEFAULTS: LottieTransform = {
+  x: 0,
+  y: 0,
+  scaleX: 1,
+  scaleY: 1,
+  rotation: 0,
+  rotateX: 0,
+  rotateY: 0,
+  opacity: 1,
+};
+
+export interface LottieImportOptions {
+  /** Layer name (`nm`) or index (`ind`). Defaults to the first layer */
+  layer?: string | number;
+  /** Frames per second of the composition the keyframes are used in */
+  fps: number;
+  /**
+   * What positions are measured from (default: "center").
+   * - `center`: the center of the Lottie frame, as `Camera` pans
+   * - `topLeft`: the Lottie coordinates as they are
+   * - `first`: the layer's first position
+   */
+  positionOrigin?: "center" | "topLeft" | "first";
+  /** Size of the composition; positions are scaled from the Lottie size to it */
+  size?: { width: number; height: number };
+}
+
+type TransformKey = keyof LottieTransform;
+
+// A keyframe of one property after conversion
+interface ConvertedKeyframe {
+  frame: number;
+  key: TransformKey;
+  value: number;
+  easing?: [number, number, number, number];
+  hold?: boolean;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const pick = (value: number | number[] | undefined, dimension: number): number | undefined =>
+  Array.isArray(value) ? (value[dimension] ?? value[0]) : value;
+
+const isAnimated = (
+  property: LottieProperty,
+): property is LottieProperty & { k: LottieKeyframe[] } =>
+  Array.isArray(property.k) && property.k.length > 0 && isRecord(property.k[0]);
+
+/**
+ * Read the animation from parsed JSON, with readable errors for files that
+ * are not Lottie animations.
+ */
+function readAnimation(json: unknown): LottieAnimation {
+  if (!isRecord(json) || !Array.isArray(json.layers) || typeof json.fr !== "number") {
+    throw new Error("Not a Lottie animation: expected an object with `fr` and `layers`");
+  }
+  return {
+    fr: json.fr,
+    ip: typeof json.ip === "number" ? json.ip : 0,
+    w: typeof json.w === "number" ? json.w : 0,
+    h: typeof json.h === "number" ? json.h : 0,
+    layers: json.layers as LottieLayer[],
+  };
+}
+
+function findLayer(animation: LottieAnimation, layer: string | number | undefined): LottieLayer {
+  const found =
+    layer === undefined
+      ? animation.layers[0]
+      : animation.layers.find((l) =>
+          typeof layer === "string" ? l.nm === layer : l.ind === layer,
+        );
+
+  if (!found) {
+    const names = animation.layers.map((l) => l.nm ?? `#${l.ind}`).join(", ");
+    throw new Error(`Lottie layer ${JSON.stringify(layer)} not found. Layers: ${names || "none"}`);
+  }
+  return found;
+}
+
+/**
+ * Convert one dimension of a Lottie property to keyframes.
+ */
+function convertProperty(
+  property: LottieProperty | undefined,
+  dimension: number,
+  key: TransformKey,
+  toFrame: (t: number) => number,
+  toValue: (v: number) => number,
+): ConvertedKeyframe[] {
+  if (!property) return [];
+
+  if (!isAnimated(property)) {
+    const value = pick(property.k as number | number[], dimension);
+    return value === undefined ? [] : [{ frame: 0, key, value: toValue(value) }];
+  }
+
+  const keyframes = property.k;
+  const result: ConvertedKeyframe[] = [];
+
+  keyframes.forEach((kf, i) => {
+    const prev = keyframes[i - 1];
+    // Old exports store the value in the previous keyframe's `e`
+    const raw = pick(kf.s, dimension) ?? pick(prev?.e, dimension);
+    if (raw === undefined) return;
+
+    // The easing of a Lottie segment belongs to its first keyframe, ours to its last
+    const easing: ConvertedKeyframe["easing"] =
+      prev?.o && prev.i && !prev.h
+        ? [
+            pick(prev.o.x, dimension) ?? 0,
+            pick(prev.o.y, dimension) ?? 0,
+            pick(prev.i.x, dimension) ?? 1,
+            pick(prev.i.y, dimension) ?? 1,
+          ]
+        : undefined;
+
+    result.push({
+      frame: toFrame(kf.t),
+      key,
+      value: toValue(raw),
+      easing,
+      hold: kf.h === 1 || undefined,
+    });
+  });
+
+  return result;
+}
+
+function convertLayer(json: unknown, options: LottieImportOptions): ConvertedKeyframe[] {
+  const animation = readAnimation(json);
+  const layer = findLayer(animation, options.layer);
+  const transform = layer.ks ?? {};
+  const { fps, positionOrigin = "center", size } = options;
+
+  const toFrame = (t: number) => ((t + (layer.st ?? 0) - animation.ip) * fps) / animation.fr;
+  const scaleX = size && animation.w ? size.width / animation.w : 1;
+  const scaleY = size && animation.h ? size.height / animation.h : 1;
+  const identity = (v: number) => v;
+  const percent = (v: number) => v / 100;
+
+  // Position is either one [x, y] property or separate x and y properties
+  const position = transform.p;
+  const x = position?.s
+    ? convertProperty(position.x, 0, "x", toFrame, identity)
+    : convertProperty(position, 0, "x", toFrame, identity);
+  const y = position?.s
+    ? convertProperty(position.y, 0, "y", toFrame, identity)
+    : convertProperty(position, 1, "y", toFrame, identity);
+
+  const getOrigin = (keyframes: ConvertedKeyframe[], center: number) => {
+    if (positionOrigin === "center") return center;
+    if (positionOrigin === "first") return keyframes[0]?.value ?? 0;
+    return 0;
+  };
+  const originX = getOrigin(x, animation.w / 2);
+  const originY = getOrigin(y, animation.h / 2);
+
+  const is3d = layer.ddd === 1;
+  return [
+    ...x.map((kf) => ({ ...kf, value: (kf.value - originX) * scaleX })),
+    ...y.map((kf) => ({ ...kf, value: (kf.value - originY) * scaleY })),
+    ...convertProperty(transform.s, 0, "scaleX", toFrame, percent),
+    ...convertProperty(transform.s, 1, "scaleY", toFrame, percent),
+    ...convertProperty(
+      is3d ? (transform.rz ?? transform.r) : transform.r,
+      0,
+      "rotation",
+      toFrame,
+      identity,
+    ),
+    ...(is3d ? convertProperty(transform.rx, 0, "rotateX", toFrame, identity) : []),
+    ...(is3d ? convertProperty(transform.ry, 0, "rotateY", toFrame, identity) : []),
+    ...convertProperty(transform.o, 0, "opacity", toFrame, percent),
+  ];
+}
+
+/**
+ * Group converted keyframes that share a frame, easing and hold, so each
+ * output keyframe carries one easing for all its properties.
+ */
+function groupKeyframes(keyframes: ConvertedKeyframe[]) {
+  const groups = new Map<
+    string,
+    Omit<ConvertedKeyframe, "key" | "value"> & { values: Partial<LottieTransform> }
+  >();
+
+  for (const kf of keyframes) {
+    const id = `${kf.frame}|${kf.easing?.join(",") ?? ""}|${kf.hold ?? ""}`;
+    const group = groups.get(id) ?? {
+      frame: kf.frame,
+      easing: kf.easing,
+      hold: kf.hold,
+      values: {},
+    };
+    group.values[kf.key] = kf.value;
+    groups.set(id, group);
+  }
+
+  return [...groups.values()].sort((a, b) => a.frame - b.frame);
+}
+
+const clampUnit = (v: number) => Math.max(0, Math.min(1, v));
+
+// Bezier handles must stay inside the segment in time
+const toEasing = (easing: ConvertedKeyframe["easing"]) =>
+  easing
+    ? Easing.bezier(clampUnit(easing[0]), easing[1], clampUnit(easing[2]), easing[3])
+    : undefined;
+
+/**
+ * Read the transform keyframes of a Lottie (Bodymovin) layer as
+ * `useMultiKeyframes` keyframes, with each segment's bezier easing and
+ * hold keyframes, retimed to `fps`.
+ *
+ * Spatial tangents of motion paths are not read: positions move in
+ * straight lines between keyframes.
+ *
+ * @example
+ * import logoAnimation from "./logo.json";
+ *
+ * const keyframes = lottieToMultiKeyframes(logoAnimation, { layer: "Logo", fps: 30 });
+ * const { x, y, scaleX, rotation, opacity } = useMultiKeyframes(keyframes, LOTTIE_TRANSFORM_DEFAULTS);
+ */
+export function lottieToMultiKeyframes(
+  json: unknown,
+  options: LottieImportOptions,
+): MultiKeyframe<LottieTransform>[] {
+  return groupKeyframes(convertLayer(json, options)).map(({ frame, easing, hold, values }) => ({
+    frame,
+    ...values,
+    ...(easing ? { easing: toEasing(easing) } : {}),
+    ...(hold ? { hold } : {}),
+  }));
+}
+
+/**
+ * Value of one property at `frame`, following its Lottie curve.
+ */
+function sampleProperty(keyframes: ConvertedKeyframe[], frame: number): number {
+  const next = keyframes.findIndex((kf) => kf.frame > frame);
+  if (next === -1) return keyframes[keyframes.length - 1].value;
+  if (next === 0) return keyframes[0].value;
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  if (from.hold) return from.value;
+
+  const easing = toEasing(to.easing) ?? Easing.linear;
+  return from.value + (to.value - from.value) * easing((frame - from.frame) / (to.frame - from.frame));
+}
+
+/**
+ * The easing a property follows between two frames with no keyframe of its
+ * own in between, with an id to compare it with other properties.
+ * Undefined when the property does not move there.
+ */
+function getSpanEasing(keyframes: ConvertedKeyframe[], start: number, end: number) {
+  const next = keyframes.findIndex((kf) => kf.frame > (start + end) / 2);
+  if (next <= 0) return undefined;
+
+  const from = keyframes[next - 1];
+  const to = keyframes[next];
+  // Holds jump at their next keyframe, whichever easing leads to it
+  if (from.hold || from.value === to.value) return undefined;
+
+  const easing = toEasing(to.easing);
+  if (!easing) return { id: "linear", easing: Easing.linear };
+
+  // The part of the Lottie segment between the two frames, rescaled to 0-1
+  const span = to.frame - from.frame;
+  const u0 = (start - from.frame) / span;
+  const u1 = (end - from.frame) / span;
+  const e0 = easing(u0);
+  const e1 = easing(u1);
+  return {
+    id: `${to.easing?.join(",")}|${u0}|${u1}`,
+    easing:
+      u0 === 0 && u1 === 1
+        ? easing
+        : e0 === e1
+          ? undefined
+          : (t: number) => (easing(u0 + (u1 - u0) * t) - e0) / (e1 - e0),
+  };
+}
+
+/**
+ * Read the transform keyframes of a Lottie (Bodymovin) layer, e.g. a null
+ * used as a camera, as `Camera` keyframes retimed to `fps`. The horizontal
+ * scale becomes the camera zoom.
+ *
+ * `Camera` keyframes set every property and share one easing, so there is
+ * a keyframe at each frame any property has one, with all properties read
+ * from their own Lottie curves. Where properties with different easings
+ * move at the same time, the move is baked into a keyframe per frame.
+ * Hold keyframes become a jump at the next keyframe's frame.
+ *
+ * @example
+ * import shot from "./camera-move.json";
+ *
+ * <Camera keyframes={lottieToCameraKeyframes(shot, { layer: "Camera", fps: 30 })}>
+ *   <Scene />
+ * </Camera>
+ */
+export function lottieToCameraKeyframes(
+  json: unknown,
+  options: LottieImportOptions,
+): CameraKeyframe[] {
+  const tracks = new Map<TransformKey, ConvertedKeyframe[]>();
+  for (const kf of convertLayer(json, options)) {
+    if (kf.key === "scaleY" || kf.key === "opacity") continue;
+    tracks.set(kf.key, [...(tracks.get(kf.key) ?? []), kf]);
+  }
+  tracks.forEach((keyframes) => keyframes.sort((a, b) => a.frame - b.frame));
+
+  const frames = new Set<number>();
+  for (const keyframes of tracks.values()) {
+    keyframes.forEach((kf, i) => {
+      frames.add(kf.frame);
+      // Emulate holds with a keyframe just before the next one
+      const next = keyframes[i + 1];
+      if (kf.hold && next) frames.add(next.frame - 1e-3);
+    });
+  }
+
+  const toKeyframe = (frame: number, easing?: (t: number) => number): CameraKeyframe => {
+    const values: Partial<LottieTransform> = {};
+    tracks.forEach((keyframes, key) => {
+      values[key] = sampleProperty(keyframes, frame);
+    });
+    const { scaleX, ...rest } = values;
+    return {
+      frame,
+      ...rest,
+      ...(scaleX !== undefined ? { scale: scaleX } : {}),
+      ...(easing ? { easing } : {}),
+    };
+  };
+
+  const sorted = [...frames].sort((a, b) => a - b);
+  return sorted.flatMap((frame, i) => {
+    if (i === 0) return [toKeyframe(frame)];
+
+    const start = sorted[i - 1];
+    const spans = [...tracks.values()].flatMap(
+      (keyframes) => getSpanEasing(keyframes, start, frame) ?? [],
+    );
+    const ids = new Set(spans.map((span) => span.id));
+    const easing = ids.size === 0 ? Easing.linear : spans[0].easing;
+    if (ids.size <= 1 && easing) return [toKeyframe(frame, easing)];
+
+    // One easing cannot follow every curve here: sample each frame instead
+    const baked: CameraKeyframe[] = [];
+    for (let f = Math.floor(start) + 1; f < frame; f++) {
+      baked.push(toKeyframe(f, Easing.linear));
+    }
+    return [...baked, toKeyframe(frame, Easing.linear)];
+  });
+}
+
+/**
+ * List the layers of a Lottie animation, to find the one to import.
+ */
+export function getLottieLayers(
+  json: unknown,
+): { name: string | undefined; index: number | undefined }[] {
+  return readAnimation(json).layers.map((layer) => ({ name: layer.nm, index: layer.ind }));
+}
@@ -38,3 +38,12 @@ export * from "./components";
 
 // Presets
 export * from "./presets";
+
+// Importers
+export * from "./importers";
+
+// Scene documents
+export * from "./document";
+
+// Profiling
+export * from "./profiling";
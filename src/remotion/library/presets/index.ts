@@ -58,6 +58,8 @@ export {
   type SpringName,
   getSpring,
   createSpring,
+  springFromDuration,
+  type PerceptualSpringOptions,
 } from "./springs";
 export * from "./durations";
 export * from "./shadows";
@@ -140,18 +140,83 @@ export function getSpring(name: SpringName | SpringConfig): SpringConfig {
 }
 
 /**
- * Create a custom spring configuration.
+ * A spring described by how it looks rather than its physics, as in
+ * SwiftUI and Framer Motion.
  */
+export interface PerceptualSpringOptions {
+  /** Perceived duration in seconds; the spring settles a bit later */
+  duration: number;
+  /**
+   * How much it overshoots, from -1 to 1 (default: 0).
+   * 0 arrives without overshoot, 0.3 bounces noticeably, negative values
+   * approach more and more slowly.
+   */
+  bounce?: number;
+  /** Mass of the object. Default: 1 */
+  mass?: number;
+  precision?: number;
+  clamp?: boolean;
+}
+
+// Bounces of exactly 1 or -1 never settle
+const MAX_BOUNCE = 0.95;
+
+/**
+ * Create a custom spring configuration, either from its physics or from
+ * a perceived duration and bounce.
+ *
+ * @example
+ * const heavy = createSpring(120, 30, { mass: 2 });
+ *
+ * // Feels like half a second with a light bounce
+ * const pop = createSpring({ duration: 0.5, bounce: 0.25 });
+ */
+export function createSpring(options: PerceptualSpringOptions): SpringConfig;
 export function createSpring(
   tension: number,
   friction: number,
   options?: { mass?: number; precision?: number; clamp?: boolean },
+): SpringConfig;
+export function createSpring(
+  tensionOrOptions: number | PerceptualSpringOptions,
+  friction: number = 0,
+  options?: { mass?: number; precision?: number; clamp?: boolean },
 ): SpringConfig {
+  if (typeof tensionOrOptions !== "number") {
+    const { duration, bounce = 0, ...rest } = tensionOrOptions;
+    const { tension, friction: damping } = springFromDuration(duration, bounce, rest.mass ?? 1);
+    return createSpring(tension, damping, rest);
+  }
+
   return {
-    tension,
+    tension: tensionOrOptions,
     friction,
     mass: options?.mass ?? 1,
     precision: options?.precision ?? 0.01,
     clamp: options?.clamp ?? false,
   };
 }
+
+/**
+ * Convert a perceived duration (seconds) and bounce to stiffness and
+ * damping: the duration is the period of the undamped spring and the
+ * bounce sets the damping ratio to `1 - bounce` (or `1 / (1 + bounce)`
+ * when negative).
+ */
+export function springFromDuration(
+  duration: number,
+  bounce: number = 0,
+  mass: number = 1,
+): { tension: number; friction: number } {
+  if (!(duration > 0)) {
+    throw new Error(`Spring duration must be greater than 0, got ${duration}`);
+  }
+  const clamped = Math.max(-MAX_BOUNCE, Math.min(MAX_BOUNCE, bounce));
+  const omega = (2 * Math.PI) / duration;
+  const dampingRatio = clamped >= 0 ? 1 - clamped : 1 / (1 + clamped);
+
+  return {
+    tension: omega * omega * mass,
+    friction: 2 * dampingRatio * omega * mass,
+  };
+}
@@ -0,0 +1,12 @@
+/**
+ * Profiling barrel export.
+ */
+
+export {
+  RenderProfilerContext,
+  withRenderProfiler,
+  profileComposition,
+  COMPOSITION_SAMPLE_NAME,
+  type RenderProfiler,
+  type RenderSample,
+} from "./renderProfiler";
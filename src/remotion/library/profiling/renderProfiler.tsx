@@ -0,0 +1,146 @@
+import { createContext, Profiler, useContext, useLayoutEffect, useRef } from "react";
+import { useCurrentFrame } from "remotion";
+
+/**
+ * Name under which the whole composition is recorded.
+ */
+export const COMPOSITION_SAMPLE_NAME = "Composition";
+
+/**
+ * Time React spent rendering one profiled component for one frame.
+ */
+export interface RenderSample {
+  /** Name of the profiled component */
+  name: string;
+  /** Composition frame being rendered */
+  frame: number;
+  /** Render time of the component and its children, in milliseconds */
+  duration: number;
+  /**
+   * Time React spent committing the frame to the DOM, layout effects
+   * included, in milliseconds. Only measured for the whole composition
+   */
+  commitDuration?: number;
+  /** Whether the component mounted or re-rendered */
+  phase: "mount" | "update" | "nested-update";
+  /** Time at which React committed the frame, in milliseconds */
+  commitTime: number;
+}
+
+/**
+ * Receives render samples from profiled components.
+ */
+export interface RenderProfiler {
+  /** Called once per profiled component per commit */
+  record: (sample: RenderSample) => void;
+}
+
+/**
+ * Enables profiling for the components below it. Without a profiler,
+ * profiled components render exactly like their unwrapped version.
+ */
+export const RenderProfilerContext = createContext<RenderProfiler | null>(null);
+
+const ProfiledComponent: React.FC<{
+  name: string;
+  profiler: RenderProfiler;
+  children: React.ReactNode;
+}> = ({ name, profiler, children }) => {
+  const frame = useCurrentFrame();
+
+  return (
+    <Profiler
+      id={name}
+      onRender={(_id, phase, actualDuration, _baseDuration, _startTime, commitTime) =>
+        profiler.record({ name, frame, duration: actualDuration, phase, commitTime })
+      }
+    >
+      {children}
+    </Profiler>
+  );
+};
+
+/**
+ * Wrap a component so its render time is recorded under `name` while a
+ * `RenderProfilerContext` is present.
+ *
+ * Timings come from React's `<Profiler>` and include the component's
+ * children. They are only available in development and profiling builds
+ * of React. Wrap the component inline in its typed export, so Storybook
+ * still finds its props and description.
+ *
+ * @example
+ * export const Particles: React.FC<ParticlesProps> = withRenderProfiler<ParticlesProps>(
+ *   "Particles",
+ *   (props) => ...,
+ * );
+ */
+export function withRenderProfiler<P extends object>(
+  name: string,
+  Component: React.FC<P>,
+): React.FC<P> {
+  const Profiled: React.FC<P> = (props) => {
+    const profiler = useContext(RenderProfilerContext);
+    if (!profiler) return <Component {...props} />;
+
+    return (
+      <ProfiledComponent name={name} profiler={profiler}>
+        <Component {...props} />
+      </ProfiledComponent>
+    );
+  };
+  Profiled.displayName = name;
+  return Profiled;
+}
+
+/**
+ * Wrap a composition so every frame is recorded as a whole (under
+ * `COMPOSITION_SAMPLE_NAME`), with its commit time, and profiled
+ * components inside it report to `profiler`.
+ *
+ * @example
+ * const Profiled = useMemo(() => profileComposition(Main, profiler), [profiler]);
+ * <Player component={Profiled} ... />
+ */
+export function profileComposition<P extends object>(
+  Component: React.ComponentType<P>,
+  profiler: RenderProfiler,
+): React.FC<P> {
+  const Root: React.FC<P> = (props) => {
+    const frame = useCurrentFrame();
+    const pendingRef = useRef<RenderSample | null>(null);
+
+    // Runs at the end of the commit the sample below belongs to, once the
+    // DOM is updated and the children's layout effects have run
+    useLayoutEffect(() => {
+      const sample = pendingRef.current;
+      if (!sample) return;
+      pendingRef.current = null;
+      profiler.record({ ...sample, commitDuration: performance.now() - sample.commitTime });
+    });
+
+    return (
+      <RenderProfilerContext.Provider value={profiler}>
+        <Profiler
+          id={COMPOSITION_SAMPLE_NAME}
+          onRender={(_id, phase, actualDuration, _baseDuration, _startTime, commitTime) => {
+            // A commit inside the composition that didn't render the root
+            // has no layout effect to measure it
+            if (pendingRef.current) profiler.record(pendingRef.current);
+            pendingRef.current = {
+              name: COMPOSITION_SAMPLE_NAME,
+              frame,
+              duration: actualDuration,
+              phase,
+              commitTime,
+            };
+          }}
+        >
+          <Component {...props} />
+        </Profiler>
+      </RenderProfilerContext.Provider>
+    );
+  };
+  Root.displayName = `Profiled(${Component.displayName ?? Component.name})`;
+  return Root;
+}
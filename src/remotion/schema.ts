@@ -0,0 +1,187 @@
+/**
+ * Lightweight prop schemas for registered compositions.
+ *
+ * A schema describes the editable input props of a composition so the
+ * preview app can present them to non-developers.
+ */
+
+interface BaseField {
+  /** Human readable label (defaults to the prop name) */
+  label?: string;
+  /** Short help text shown next to the control */
+  description?: string;
+}
+
+export interface TextField extends BaseField {
+  type: "text";
+  /** Render a textarea instead of a single-line input */
+  multiline?: boolean;
+}
+
+export interface NumberField extends BaseField {
+  type: "number";
+  min?: number;
+  max?: number;
+  step?: number;
+}
+
+export interface BooleanField extends BaseField {
+  type: "boolean";
+}
+
+export interface ColorField extends BaseField {
+  type: "color";
+}
+
+export interface EnumField extends BaseField {
+  type: "enum";
+  /** Allowed values, in display order */
+  options: readonly string[];
+}
+
+export interface ObjectField extends BaseField {
+  type: "object";
+  /** Fields of the object */
+  fields: Record<string, PropField>;
+}
+
+export interface ArrayField extends BaseField {
+  type: "array";
+  /** Schema of each item */
+  item: PropField;
+  /** Minimum number of items */
+  minItems?: number;
+  /** Maximum number of items */
+  maxItems?: number;
+}
+
+/**
+ * A single editable prop.
+ */
+export type PropField =
+  | TextField
+  | NumberField
+  | BooleanField
+  | ColorField
+  | EnumField
+  | ObjectField
+  | ArrayField;
+
+/**
+ * Schema describing the editable props of a composition.
+ * Props without an entry are passed through untouched.
+ */
+export type PropSchema<Props extends Record<string, unknown> = Record<string, unknown>> = {
+  [K in keyof Props]?: PropField;
+};
+
+/**
+ * Get the value a newly created field starts with, e.g. when adding an
+ * item to an array.
+ */
+export function getFieldDefault(field: PropField): unknown {
+  switch (field.type) {
+    case "text":
+      return "";
+    case "number":
+      return field.min ?? 0;
+    case "boolean":
+      return false;
+    case "color":
+      return "#ffffff";
+    case "enum":
+      return field.options[0] ?? "";
+    case "object": {
+      const value: Record<string, unknown> = {};
+      for (const key in field.fields) {
+        value[key] = getFieldDefault(field.fields[key]);
+      }
+      return value;
+    }
+    case "array":
+      return Array.from({ length: field.minItems ?? 0 }, () =>
+        getFieldDefault(field.item),
+      );
+  }
+}
+
+const describeValue = (value: unknown) =>
+  Array.isArray(value) ? "an array" : value === null ? "null" : `a ${typeof value}`;
+
+function getFieldError(field: PropField, value: unknown, path: string): string | null {
+  switch (field.type) {
+    case "text":
+    case "color":
+      return typeof value === "string"
+        ? null
+        : `${path} should be a string, got ${describeValue(value)}`;
+    case "number":
+      if (typeof value !== "number" || !Number.isFinite(value)) {
+        return `${path} should be a number, got ${describeValue(value)}`;
+      }
+      if (field.min !== undefined && value < field.min) {
+        return `${path} should be at least ${field.min}`;
+      }
+      if (field.max !== undefined && value > field.max) {
+        return `${path} should be at most ${field.max}`;
+      }
+      return null;
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `${path} should be a boolean, got ${describeValue(value)}`;
+    case "enum":
+      return typeof value === "string" && field.options.includes(value)
+        ? null
+        : `${path} should be one of ${field.options.join(", ")}`;
+    case "object": {
+      if (!value || typeof value !== "object" || Array.isArray(value)) {
+        return `${path} should be an object, got ${describeValue(value)}`;
+      }
+      for (const key in field.fields) {
+        const error = getFieldError(
+          field.fields[key],
+          (value as Record<string, unknown>)[key],
+          `${path}.${key}`,
+        );
+        if (error) return error;
+      }
+      return null;
+    }
+    case "array": {
+      if (!Array.isArray(value)) {
+        return `${path} should be an array, got ${describeValue(value)}`;
+      }
+      if (field.minItems !== undefined && value.length < field.minItems) {
+        return `${path} should have at least ${field.minItems} items`;
+      }
+      if (field.maxItems !== undefined && value.length > field.maxItems) {
+        return `${path} should have at most ${field.maxItems} items`;
+      }
+      for (let i = 0; i < value.length; i++) {
+        const error = getFieldError(field.item, value[i], `${path}[${i}]`);
+        if (error) return error;
+      }
+      return null;
+    }
+  }
+}
+
+/**
+ * Check props against a schema, e.g. props coming from a URL or a file,
+ * before passing them to the composition. Returns a description of the
+ * first mismatch, or null if the props match. Props without a schema
+ * entry are not checked.
+ */
+export function getPropsError(
+  schema: PropSchema,
+  props: Record<string, unknown>,
+): string | null {
+  for (const key in schema) {
+    const field = schema[key];
+    if (!field) continue;
+    const error = getFieldError(field, props[key], key);
+    if (error) return error;
+  }
+  return null;
+}
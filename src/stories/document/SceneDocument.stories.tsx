@@ -0,0 +1,59 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import {
+  SceneDocument,
+  assertSceneDocument,
+  defaultComponentRegistry,
+  getSceneDocumentDuration,
+  type SceneDocumentData,
+} from "../../remotion/library/document";
+import launchDocument from "../../remotion/compositions/documents/launch.json";
+import { RemotionWrapper } from "../helpers/RemotionWrapper";
+
+const meta: Meta<typeof SceneDocument> = {
+  title: "Document/SceneDocument",
+  component: SceneDocument,
+};
+
+export default meta;
+type Story = StoryObj<typeof SceneDocument>;
+
+const launch: unknown = launchDocument;
+assertSceneDocument(launch, defaultComponentRegistry);
+
+export const Launch: Story = {
+  args: { document: launch },
+  decorators: [
+    (Story) => (
+      <RemotionWrapper durationInFrames={getSceneDocumentDuration(launch, 30)}>
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+};
+
+const minimal: SceneDocumentData = {
+  scenes: [
+    {
+      duration: 2,
+      background: "#0f172a",
+      layers: [{ component: "TitleCard", props: { title: "First" } }],
+      transition: { type: "slideLeft", duration: 0.5, timing: "snappy" },
+    },
+    {
+      duration: 2,
+      background: "#312e81",
+      layers: [{ component: "TitleCard", props: { title: "Second" } }],
+    },
+  ],
+};
+
+export const Minimal: Story = {
+  args: { document: minimal },
+  decorators: [
+    (Story) => (
+      <RemotionWrapper durationInFrames={getSceneDocumentDuration(minimal, 30)}>
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+};
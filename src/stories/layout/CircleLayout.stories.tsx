@@ -128,3 +128,12 @@ export const ManyItems: Story = {
     </CircleLayout>
   ),
 };
+
+export const SweepLeftToRight: Story = {
+  args: {
+    radius: 150,
+    stagger: 0.08,
+    staggerDistribution: { type: "direction", angle: 0 },
+  },
+  render: (args) => <CircleLayout {...args}>{items}</CircleLayout>,
+};
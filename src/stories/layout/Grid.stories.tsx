@@ -119,3 +119,31 @@ export const RandomStagger: Story = {
   },
   render: (args) => <Grid {...args}>{items}</Grid>,
 };
+
+export const RippleFromCorner: Story = {
+  args: {
+    columns: 4,
+    gap: 12,
+    stagger: 0.04,
+    staggerDistribution: { type: "distance", origin: { x: 3, y: 0 } },
+    animation: "scaleIn",
+  },
+  render: (args) => (
+    <Grid {...args}>
+      {Array.from({ length: 16 }, (_, i) => (
+        <Card key={i} index={i} />
+      ))}
+    </Grid>
+  ),
+};
+
+export const DiagonalSweep: Story = {
+  args: {
+    columns: 3,
+    gap: 16,
+    stagger: 0.08,
+    staggerDistribution: { type: "direction", angle: 45 },
+    animation: "slideUp",
+  },
+  render: (args) => <Grid {...args}>{items}</Grid>,
+};
@@ -0,0 +1,81 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import gsap from "gsap";
+import { AbsoluteFill, useCurrentFrame, interpolate } from "remotion";
+import { GsapLabels, GsapSequence } from "../../remotion/library/components/layout";
+import { getTimelineLabels } from "../../remotion/library/hooks";
+import { RemotionWrapper } from "../helpers/RemotionWrapper";
+
+const meta: Meta<typeof GsapSequence> = {
+  title: "Layout/GsapSequence",
+  component: GsapSequence,
+  decorators: [
+    (Story) => (
+      <RemotionWrapper durationInFrames={150} backgroundColor="#0f0f23">
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof GsapSequence>;
+
+// Only the structure matters here, so the tweens animate a plain object
+const timeline = (() => {
+  const target = { progress: 0 };
+  const tl = gsap.timeline({ paused: true });
+  tl.addLabel("intro")
+    .to(target, { progress: 1, duration: 1.5 })
+    .addLabel("main")
+    .to(target, { progress: 2, duration: 2 })
+    .addLabel("outro")
+    .to(target, { progress: 3, duration: 1 });
+  return getTimelineLabels(tl);
+})();
+
+const Card = ({ title, color }: { title: string; color: string }) => {
+  const frame = useCurrentFrame();
+  const opacity = interpolate(frame, [0, 10], [0, 1], { extrapolateRight: "clamp" });
+
+  return (
+    <AbsoluteFill
+      style={{
+        background: color,
+        display: "flex",
+        alignItems: "center",
+        justifyContent: "center",
+        color: "#fff",
+        fontFamily: "system-ui",
+        fontSize: 48,
+        fontWeight: 800,
+        opacity,
+      }}
+    >
+      {title}
+    </AbsoluteFill>
+  );
+};
+
+export const LabelledScenes: Story = {
+  render: () => (
+    <GsapLabels timeline={timeline}>
+      <GsapSequence label="intro">
+        <Card title="Intro" color="#312e81" />
+      </GsapSequence>
+      <GsapSequence label="main">
+        <Card title="Main" color="#0f766e" />
+      </GsapSequence>
+      <GsapSequence label="outro">
+        <Card title="Outro" color="#9f1239" />
+      </GsapSequence>
+    </GsapLabels>
+  ),
+};
+
+export const SpanningLabels: Story = {
+  render: () => (
+    <GsapSequence timeline={timeline} label="intro" until="outro">
+      <Card title="Intro + Main" color="#1e3a8a" />
+    </GsapSequence>
+  ),
+};
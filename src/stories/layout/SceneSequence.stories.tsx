@@ -0,0 +1,75 @@
+import type { Meta, StoryObj } from "@storybook/react";
+import { AbsoluteFill } from "remotion";
+import {
+  SceneSequence,
+  getSceneSequenceDuration,
+  type SceneSequenceItem,
+} from "../../remotion/library/components/layout";
+import { RemotionWrapper } from "../helpers/RemotionWrapper";
+
+const Slide = ({ title, background }: { title: string; background: string }) => (
+  <AbsoluteFill
+    style={{
+      background,
+      display: "flex",
+      alignItems: "center",
+      justifyContent: "center",
+      color: "#fff",
+      fontFamily: "system-ui",
+      fontSize: 56,
+      fontWeight: 800,
+    }}
+  >
+    {title}
+  </AbsoluteFill>
+);
+
+const scenes: SceneSequenceItem[] = [
+  {
+    id: "intro",
+    component: Slide,
+    props: { title: "Intro", background: "#312e81" },
+    durationInFrames: 60,
+    transition: { type: "blurDissolve", timing: "smooth", durationInFrames: 20 },
+  },
+  {
+    id: "main",
+    component: Slide,
+    props: { title: "Main", background: "#0f766e" },
+    durationInFrames: 75,
+    transition: { type: "wipe", angle: 135, softness: 15, durationInFrames: 25 },
+  },
+  {
+    id: "outro",
+    children: <Slide title="Outro" background="#9f1239" />,
+    durationInFrames: 60,
+    transition: { type: "flash", color: "#fde68a", durationInFrames: 15 },
+  },
+  {
+    id: "end",
+    children: <Slide title="The end" background="#111827" />,
+    durationInFrames: 45,
+  },
+];
+
+const meta: Meta<typeof SceneSequence> = {
+  title: "Layout/SceneSequence",
+  component: SceneSequence,
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getSceneSequenceDuration(scenes)}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+};
+
+export default meta;
+type Story = StoryObj<typeof SceneSequence>;
+
+export const Default: Story = {
+  args: { scenes },
+};
@@ -6,6 +6,7 @@ import {
   springTiming,
   getPresentation,
   createTiming,
+  SharedElement,
   type TransitionType,
 } from "../../remotion/library/components/layout";
 import { RemotionWrapper } from "../helpers/RemotionWrapper";
@@ -503,6 +504,65 @@ export const ClockWipe: Story = {
   ),
 };
 
+export const LumaWipe: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [30])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("lumaWipe")}
+        timing={createTiming("linear", 30)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
+// Any grayscale image works as a map; stories inline one instead of a staticFile
+const RADIAL_MAP = `data:image/svg+xml,${encodeURIComponent(
+  '<svg xmlns="http://www.w3.org/2000/svg" width="256" height="256"><radialGradient id="g"><stop offset="0" stop-color="#000"/><stop offset="1" stop-color="#fff"/></radialGradient><rect width="256" height="256" fill="url(#g)"/></svg>',
+)}`;
+
+export const LumaWipeRadial: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [30])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("lumaWipe", { src: RADIAL_MAP, softness: 0.3 })}
+        timing={createTiming("smooth", 30)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
 // === WARP TRANSITIONS ===
 
 export const WarpLeft: Story = {
@@ -559,6 +619,33 @@ export const WarpRight: Story = {
   ),
 };
 
+export const Displacement: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [30])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("displacement", { strength: 0.15 })}
+        timing={createTiming("linear", 30)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
 // === CINEMATIC TRANSITIONS ===
 
 export const WhipPan: Story = {
@@ -669,6 +756,143 @@ export const Glitch: Story = {
   ),
 };
 
+export const FlashColor: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([50, 50], [20])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={50}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation({ type: "flash", color: "#f43f5e" })}
+        timing={createTiming("linear", 20)}
+      />
+      <TransitionSeries.Sequence durationInFrames={50}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
+export const AngledSoftWipe: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([50, 50], [30])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={50}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("wipe", { angle: 135, softness: 20 })}
+        timing={createTiming("smooth", 30)}
+      />
+      <TransitionSeries.Sequence durationInFrames={50}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
+// === HAND-DRAWN TRANSITIONS ===
+
+export const BrushStroke: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [35])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("brushStroke")}
+        timing={createTiming("linear", 35)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
+export const InkSplat: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [35])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("inkSplat", { count: 4, seed: "launch" })}
+        timing={createTiming("linear", 35)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
+export const ScribbleReveal: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [40])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneA />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("scribble", { wobble: 1 })}
+        timing={createTiming("linear", 40)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <SceneB />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
 // === MORPH TRANSITIONS ===
 
 export const MorphCircle: Story = {
@@ -725,6 +949,72 @@ export const MorphRounded: Story = {
   ),
 };
 
+// === SHARED ELEMENT TRANSITIONS ===
+
+const ProductCard = ({ expanded }: { expanded: boolean }) => (
+  <AbsoluteFill
+    style={{
+      background: expanded
+        ? "linear-gradient(135deg, #0f172a 0%, #1e293b 100%)"
+        : "linear-gradient(135deg, #1a1a2e 0%, #16213e 100%)",
+      display: "flex",
+      flexDirection: expanded ? "row" : "column",
+      alignItems: "center",
+      justifyContent: "center",
+      gap: 48,
+    }}
+  >
+    <SharedElement
+      id="artwork"
+      style={{
+        width: expanded ? 420 : 160,
+        height: expanded ? 420 : 160,
+        borderRadius: expanded ? 24 : 80,
+        background: "linear-gradient(135deg, #f59e0b 0%, #ef4444 100%)",
+      }}
+    />
+    <SharedElement
+      id="headline"
+      style={{
+        fontSize: expanded ? 64 : 36,
+        fontWeight: 800,
+        color: "#fff",
+        fontFamily: "system-ui",
+        opacity: expanded ? 1 : 0.7,
+      }}
+    >
+      Sunset Sessions
+    </SharedElement>
+  </AbsoluteFill>
+);
+
+export const MagicMove: Story = {
+  decorators: [
+    (Story) => (
+      <RemotionWrapper
+        durationInFrames={getTotalDuration([60, 60], [30])}
+        backgroundColor="#000"
+      >
+        <Story />
+      </RemotionWrapper>
+    ),
+  ],
+  render: () => (
+    <TransitionSeries>
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <ProductCard expanded={false} />
+      </TransitionSeries.Sequence>
+      <TransitionSeries.Transition
+        presentation={getPresentation("magicMove")}
+        timing={createTiming("smooth", 30)}
+      />
+      <TransitionSeries.Sequence durationInFrames={60}>
+        <ProductCard expanded />
+      </TransitionSeries.Sequence>
+    </TransitionSeries>
+  ),
+};
+
 // === MULTI-SCENE TRANSITIONS ===
 
 export const ThreeSceneTransition: Story = {